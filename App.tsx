@@ -1,10 +1,63 @@
-import React, { useState, useEffect } from 'react';
-import { Season, MediaData, LyricLine } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Season, MediaData, LyricLine, StoredTrack, RepeatMode, LyricsLanguage, Bookmark, LoopRegion } from './types';
 import SeasonalCanvas from './components/SeasonalCanvas';
 import DoodleRadio from './components/DoodleRadio';
 import VideoModal from './components/VideoModal';
 import Controls from './components/Controls';
 import LyricsOverlay from './components/LyricsOverlay';
+import LibraryPanel from './components/LibraryPanel';
+import PlaylistDrawer from './components/PlaylistDrawer';
+import ShortcutHelp from './components/ShortcutHelp';
+import EqualizerPanel from './components/EqualizerPanel';
+import {
+  getAllTracks,
+  getTrack,
+  putTrack,
+  updateTrack,
+  deleteTrack,
+  createTrackFromFile,
+  getSession,
+  saveSession,
+  getSetting,
+  putSetting,
+  requestPersistentStorage,
+  BACKGROUND_KEY
+} from './services/mediaLibrary';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useShortcuts } from './hooks/useShortcuts';
+import { readAudioBands } from './services/audioAnalysis';
+import { readTags } from './services/tagReader';
+import { applyEqGains, applyVintageRadio, FLAT_EQ, EqPreset } from './services/equalizer';
+import { applyWowFlutter, applyTapeHiss, applyPlaybackSpeed } from './services/tapeTransport';
+import { stepLyricsOffset, nextLyricsLanguage, LYRICS_OFFSET_STEP } from './utils/lyrics';
+import { splitSidecarFiles, pairSidecarLyrics, readLyricsFile } from './utils/sidecarLyrics';
+import { shuffleIds, shuffleNewCycle, reconcileOrder, getPlayPosition, getAdjacentIndex } from './utils/playOrder';
+
+// How often the playback position is written back to the library while playing
+const POSITION_SAVE_INTERVAL_MS = 5000;
+const LYRIC_SEEK_EPSILON = 0.001;
+
+const toMediaData = (track: StoredTrack): MediaData => ({
+  id: track.id,
+  url: URL.createObjectURL(track.file),
+  type: track.type,
+  name: track.name,
+  coverUrl: track.cover ? URL.createObjectURL(track.cover) : undefined,
+  lyrics: track.lyrics,
+  gainDb: track.gainDb,
+  lyricsOffset: track.lyricsOffset,
+  bookmarks: track.bookmarks,
+  loopRegion: track.loopRegion,
+  title: track.title,
+  artist: track.artist,
+  album: track.album,
+  duration: track.duration
+});
+
+const releaseMedia = (media: MediaData) => {
+  URL.revokeObjectURL(media.url);
+  if (media.coverUrl) URL.revokeObjectURL(media.coverUrl);
+};
 
 const App: React.FC = () => {
   const [season, setSeason] = useState<Season>(Season.Spring);
@@ -13,54 +66,468 @@ const App: React.FC = () => {
   const [playlist, setPlaylist] = useState<MediaData[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [autoPlayNext, setAutoPlayNext] = useState(false);
+
+  // Play Order State
+  const [shuffle, setShuffle] = useState(false);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>('off');
+  const [shuffleOrder, setShuffleOrder] = useState<string[]>([]);
+  // Order of the next repeat-all cycle, drawn once the current one reaches its last track,
+  // so the track preloaded for the hand-over is the one that actually plays next
+  const [nextShuffleOrder, setNextShuffleOrder] = useState<string[]>([]);
   
-  // Audio State for Lyrics Sync
-  const [currentTime, setCurrentTime] = useState(0);
-  const [lyrics, setLyrics] = useState<LyricLine[]>([]);
-  
+  // Playback position for lyrics / progress comes from the shared clock (services/playbackClock)
   const [isPlaying, setIsPlaying] = useState(false);
   const [bgImage, setBgImage] = useState<string>('');
+
+  // Master Volume (remembered between visits)
+  const [volume, setVolume] = usePersistentState('volume', 0.8);
+  const [isMuted, setIsMuted] = usePersistentState('muted', false);
+
+  // Particles react to the music (can be turned off from the dock)
+  const [isAudioReactive, setIsAudioReactive] = usePersistentState('audioReactive', true);
+
+  // Lyrics timing correction (seconds, positive = earlier): global, plus a per-track amount stored with the track
+  const [globalLyricsOffset, setGlobalLyricsOffset] = usePersistentState('lyricsOffset', 0);
+  // Tone: 10-band EQ (dB per band), the user's saved presets, and the vintage radio mode
+  const [eqGains, setEqGains] = usePersistentState<number[]>('eqGains', FLAT_EQ);
+  const [eqPresets, setEqPresets] = usePersistentState<EqPreset[]>('eqPresets', []);
+  const [isVintageRadio, setIsVintageRadio] = usePersistentState('vintageRadio', false);
+  // Cassette character: wow & flutter and tape hiss (the start / stop ramps are always on)
+  const [wowFlutter, setWowFlutter] = usePersistentState('wowFlutter', false);
+  const [tapeHiss, setTapeHiss] = usePersistentState('tapeHiss', false);
+  // Practice speed, for every track
+  const [playbackRate, setPlaybackRate] = usePersistentState('playbackRate', 1);
+  const [preservePitch, setPreservePitch] = usePersistentState('preservePitch', true);
+
+  // Seconds of crossfade between playlist tracks; 0 hands over gaplessly
+  const [crossfade, setCrossfade] = usePersistentState('crossfade', 0);
+  // Seconds the sleep timer fades out over before pausing
+  const [sleepFade, setSleepFade] = usePersistentState('sleepFade', 15);
+
+  // Bilingual lyrics: original, translation, or both stacked
+  const [lyricsLanguage, setLyricsLanguage] = usePersistentState<LyricsLanguage>('lyricsLanguage', 'both');
   
   // Visibility State for Immersive Mode
   const [isPlayerHidden, setIsPlayerHidden] = useState(false);
+
+  // Library State
+  const [isLibraryReady, setIsLibraryReady] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showPlaylist, setShowPlaylist] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showEqualizer, setShowEqualizer] = useState(false);
+  const [resumePoint, setResumePoint] = useState<{ id: string; time: number } | null>(null);
+  // Seeks asked for from outside the radio (e.g. clicking a lyric line); the id makes repeats distinct
+  const [seekRequest, setSeekRequest] = useState<{ time: number; id: number } | null>(null);
+  // Pause asked for from outside the radio (the sleep timer); a new id pauses again
+  const [pauseRequest, setPauseRequest] = useState(0);
+  // Files dragged over the page; enter/leave fire for every child, hence the depth count
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const dragDepthRef = useRef(0);
+  const positionRef = useRef<{ id: string; time: number } | null>(null);
+  const lastPositionSaveRef = useRef(0);
   
   const currentMedia = playlist[currentIndex] || null;
-  
-  // Clean up object URLs to prevent memory leaks
+  const lyrics: LyricLine[] = currentMedia?.lyrics || [];
+  const trackLyricsOffset = currentMedia?.lyricsOffset || 0;
+
+  // --- Restore the library session on startup ---
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      try {
+        const [tracks, session, background] = await Promise.all([
+          getAllTracks(),
+          getSession(),
+          getSetting<Blob>(BACKGROUND_KEY)
+        ]);
+        if (cancelled) return;
+
+        if (background) setBgImage(URL.createObjectURL(background));
+
+        // Don't clobber anything uploaded while the library was still loading
+        if (session && session.playlist.length > 0 && playlistRef.current.length === 0) {
+          const byId = new Map(tracks.map(t => [t.id, t]));
+          const restored = session.playlist
+            .map(id => byId.get(id))
+            .filter((t): t is StoredTrack => !!t)
+            .map(toMediaData);
+
+          if (restored.length > 0) {
+            const index = Math.min(Math.max(session.currentIndex, 0), restored.length - 1);
+            const resumeId = restored[index].id;
+            // Only resume mid-track if the saved position belongs to the same track
+            const time = session.playlist[session.currentIndex] === resumeId ? session.position : 0;
+            setPlaylist(restored);
+            setCurrentIndex(index);
+            setResumePoint({ id: resumeId, time });
+            positionRef.current = { id: resumeId, time };
+          }
+        }
+
+        // Tracks stored before tags were read get scanned once, in the background
+        const unscanned = tracks.filter(t => !t.tagsRead);
+        (async () => {
+          for (const track of unscanned) {
+            if (cancelled) return;
+            await scanTags(track.id);
+          }
+        })().catch(e => console.warn("Could not read tags of stored tracks:", e));
+      } catch (e) {
+        console.warn("Could not restore media library:", e);
+      } finally {
+        if (!cancelled) setIsLibraryReady(true);
+      }
+    };
+
+    restore();
+    return () => { cancelled = true; };
+  }, []);
+
+  // --- Persist the session (playlist order, current track, position) ---
+  // Refs mirror the latest state so async callbacks and listeners never save a stale snapshot
+  const playlistRef = useRef<MediaData[]>(playlist);
+  const currentIndexRef = useRef(currentIndex);
+  playlistRef.current = playlist;
+  currentIndexRef.current = currentIndex;
+
+  const persistSession = () => {
+    const current = playlistRef.current[currentIndexRef.current];
+    const position = current && positionRef.current?.id === current.id ? positionRef.current.time : 0;
+    saveSession({
+      playlist: playlistRef.current.map(m => m.id),
+      currentIndex: currentIndexRef.current,
+      position
+    }).catch(e => console.warn("Could not save session:", e));
+  };
+
+  useEffect(() => {
+    if (!isLibraryReady) return;
+    persistSession();
+  }, [isLibraryReady, playlist, currentIndex]);
+
+  // Save the position one last time when the page goes away
+  useEffect(() => {
+    if (!isLibraryReady) return;
+    const handlePageHide = () => persistSession();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [isLibraryReady]);
+
+  // Forget the resume point once we move away from the restored track
+  useEffect(() => {
+    if (resumePoint && resumePoint.id !== currentMedia?.id) {
+      setResumePoint(null);
+    }
+  }, [currentMedia?.id]);
+
+  // The tone stage keeps these until the audio graph exists
+  useEffect(() => {
+    applyEqGains(eqGains);
+  }, [eqGains]);
+
+  useEffect(() => {
+    applyVintageRadio(isVintageRadio);
+  }, [isVintageRadio]);
+
+  useEffect(() => {
+    applyWowFlutter(wowFlutter);
+  }, [wowFlutter]);
+
+  useEffect(() => {
+    applyTapeHiss(tapeHiss);
+  }, [tapeHiss]);
+
+  useEffect(() => {
+    applyPlaybackSpeed(playbackRate, preservePitch);
+  }, [playbackRate, preservePitch]);
+
+  // Clean up object URLs of tracks that left the playlist to prevent memory leaks
+  const previousPlaylistRef = useRef<MediaData[]>([]);
+  useEffect(() => {
+    const remaining = new Set(playlist.map(m => m.id));
+    previousPlaylistRef.current
+      .filter(m => !remaining.has(m.id))
+      .forEach(releaseMedia);
+    previousPlaylistRef.current = playlist;
+  }, [playlist]);
+
+  useEffect(() => {
+    return () => previousPlaylistRef.current.forEach(releaseMedia);
+  }, []);
+
   useEffect(() => {
     return () => {
-      playlist.forEach(m => URL.revokeObjectURL(m.url));
       if (bgImage) URL.revokeObjectURL(bgImage);
     };
-  }, [playlist, bgImage]);
-
-  // Handle uploading multiple files (Max 5)
-  const handleFileUpload = (files: File[]) => {
-    const newMediaItems: MediaData[] = files.map(file => ({
-      url: URL.createObjectURL(file),
-      type: file.type.startsWith('video') ? 'video' : 'audio',
-      name: file.name
-    }));
-
-    setPlaylist(newMediaItems);
-    setCurrentIndex(0);
-    setAutoPlayNext(false); 
-    setLyrics([]); // Reset lyrics for new song
+  }, [bgImage]);
+
+  const updateMedia = (id: string, patch: Partial<MediaData>) => {
+    setPlaylist(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+  };
+
+  // Reads title / artist / album / duration and the embedded picture from the file itself.
+  // The picture only becomes the cover when the user hasn't attached one.
+  const scanTags = async (id: string) => {
+    const track = await getTrack(id);
+    if (!track) return;
+    const tags = await readTags(track.file);
+    const info = { title: tags.title, artist: tags.artist, album: tags.album, duration: tags.duration };
+
+    // Re-read: a cover may have been attached while the file was being scanned
+    const latest = await getTrack(id);
+    if (!latest) return;
+    const cover = !latest.cover ? tags.picture : undefined;
+    await updateTrack(id, { ...info, ...(cover ? { cover } : {}), tagsRead: true });
+
+    if (!playlistRef.current.some(m => m.id === id)) return;
+    updateMedia(id, cover ? { ...info, coverUrl: URL.createObjectURL(cover) } : info);
+  };
+
+  // Uploads are appended to the playlist; the first upload into an empty playlist starts at track 1.
+  // Lyrics files in the same selection go with the track of the same name.
+  const handleFileUpload = async (files: File[]) => {
+    const { media, sidecars } = splitSidecarFiles(files);
+    const { lyrics: sidecarLyrics, unmatched } = await pairSidecarLyrics(media, sidecars);
+
+    // A lone lyrics file is for whatever is playing
+    if (media.length === 0) {
+      if (unmatched.length > 0 && currentMedia) {
+        readLyricsFile(unmatched[0])
+          .then(lines => { if (lines.length > 0) handleLyricsLoaded(lines); })
+          .catch(e => console.warn("Could not read lyrics file:", e));
+      }
+      return;
+    }
+
+    const tracks = media.map(file => {
+      const track = createTrackFromFile(file);
+      const lyrics = sidecarLyrics.get(file);
+      return lyrics ? { ...track, lyrics } : track;
+    });
+    const newMediaItems: MediaData[] = tracks.map(toMediaData);
+
+    if (playlist.length === 0) {
+      setCurrentIndex(0);
+      setAutoPlayNext(false); 
+    }
+    setPlaylist(prev => [...prev, ...newMediaItems]);
     // If uploading, ensure player is visible
     setIsPlayerHidden(false);
+
+    requestPersistentStorage().catch(() => {});
+    Promise.all(tracks.map(putTrack))
+      .then(async () => {
+        for (const track of tracks) await scanTags(track.id);
+      })
+      .catch(e => console.warn("Could not store uploads in library:", e));
   };
 
   const handleBgUpload = (file: File) => {
     const url = URL.createObjectURL(file);
     setBgImage(url);
+    putSetting(BACKGROUND_KEY, file)
+      .catch(e => console.warn("Could not store background:", e));
+  };
+
+  const handleCoverUpload = (file: File) => {
+    if (!currentMedia) return;
+    if (currentMedia.coverUrl) URL.revokeObjectURL(currentMedia.coverUrl);
+    updateMedia(currentMedia.id, { coverUrl: URL.createObjectURL(file) });
+    updateTrack(currentMedia.id, { cover: file })
+      .catch(e => console.warn("Could not store cover:", e));
+  };
+
+  const handleLyricsLoaded = (lines: LyricLine[]) => {
+    if (!currentMedia) return;
+    updateMedia(currentMedia.id, { lyrics: lines });
+    updateTrack(currentMedia.id, { lyrics: lines })
+      .catch(e => console.warn("Could not store lyrics:", e));
+  };
+
+  const handleGainChange = (gainDb: number) => {
+    if (!currentMedia) return;
+    updateMedia(currentMedia.id, { gainDb });
+    updateTrack(currentMedia.id, { gainDb })
+      .catch(e => console.warn("Could not store track gain:", e));
+  };
+
+  const handleLyricsOffsetChange = (lyricsOffset: number) => {
+    if (!currentMedia) return;
+    updateMedia(currentMedia.id, { lyricsOffset });
+    updateTrack(currentMedia.id, { lyricsOffset })
+      .catch(e => console.warn("Could not store lyrics offset:", e));
+  };
+
+  const handleBookmarksChange = (bookmarks: Bookmark[]) => {
+    if (!currentMedia) return;
+    updateMedia(currentMedia.id, { bookmarks });
+    updateTrack(currentMedia.id, { bookmarks })
+      .catch(e => console.warn("Could not store bookmarks:", e));
+  };
+
+  const handleLoopRegionChange = (loopRegion: LoopRegion | undefined) => {
+    if (!currentMedia) return;
+    updateMedia(currentMedia.id, { loopRegion });
+    updateTrack(currentMedia.id, { loopRegion })
+      .catch(e => console.warn("Could not store A-B repeat:", e));
+  };
+
+  // Lyric times are in "lyrics time"; undo the offset to land on the matching audio position
+  // Lands just past the line's start, so rounding in currentTime can't leave the previous line active
+  const handleLyricSeek = (lyricTime: number) => {
+    setSeekRequest({ time: Math.max(0, lyricTime - globalLyricsOffset - trackLyricsOffset + LYRIC_SEEK_EPSILON), id: Date.now() });
+  };
+
+  const handleVolumeChange = (value: number) => {
+    setVolume(value);
+    // Turning the knob up is the natural way out of mute
+    if (isMuted && value > 0) setIsMuted(false);
+  };
+
+  const handleTimeUpdate = (time: number) => {
+    if (!currentMedia) return;
+    positionRef.current = { id: currentMedia.id, time };
+
+    const now = Date.now();
+    if (now - lastPositionSaveRef.current > POSITION_SAVE_INTERVAL_MS) {
+      lastPositionSaveRef.current = now;
+      persistSession();
+    }
+  };
+
+  // --- Playlist Editing ---
+
+  const removeFromPlaylist = (id: string) => {
+    const list = playlistRef.current;
+    const index = currentIndexRef.current;
+    const removedIndex = list.findIndex(m => m.id === id);
+    if (removedIndex === -1) return;
+
+    const nextPlaylist = list.filter(m => m.id !== id);
+    setPlaylist(nextPlaylist);
+    if (removedIndex < index) {
+      setCurrentIndex(index - 1);
+    } else if (removedIndex === index) {
+      // The following track slides into the current slot
+      setCurrentIndex(Math.min(index, Math.max(nextPlaylist.length - 1, 0)));
+      setAutoPlayNext(isPlaying);
+    }
+  };
+
+  const handleRemoveFromLibrary = async (id: string) => {
+    try {
+      await deleteTrack(id);
+      removeFromPlaylist(id);
+    } catch (e) {
+      console.warn("Could not remove track from library:", e);
+    }
+  };
+
+  // Tracks taken off the playlist stay in the library and can be queued again from there
+  const handleAddFromLibrary = async (id: string) => {
+    if (playlistRef.current.some(m => m.id === id)) return;
+    try {
+      const track = await getTrack(id);
+      if (!track || playlistRef.current.some(m => m.id === id)) return;
+      if (playlistRef.current.length === 0) {
+        setCurrentIndex(0);
+        setAutoPlayNext(false);
+      }
+      setPlaylist(prev => [...prev, toMediaData(track)]);
+      setIsPlayerHidden(false);
+    } catch (e) {
+      console.warn("Could not add track from library:", e);
+    }
+  };
+
+  // Move a track while keeping the currently playing one selected
+  const handleReorder = (from: number, to: number) => {
+    const currentId = playlist[currentIndex]?.id;
+    const next = [...playlist];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    setPlaylist(next);
+    const newIndex = next.findIndex(m => m.id === currentId);
+    if (newIndex !== -1) setCurrentIndex(newIndex);
+  };
+
+  const jumpTo = (index: number, autoPlay: boolean) => {
+    if (index < 0 || index >= playlist.length || index === currentIndex) return;
+    setCurrentIndex(index);
+    setAutoPlayNext(autoPlay);
+  };
+
+  // --- Play Order (shuffle / repeat) ---
+
+  const playlistIds = playlist.map(m => m.id).join('|');
+  useEffect(() => {
+    if (!shuffle) return;
+    setShuffleOrder(prev => reconcileOrder(prev, playlist.map(m => m.id), currentMedia?.id));
+  }, [shuffle, playlistIds]);
+
+  const toggleShuffle = () => {
+    if (shuffle) {
+      setShuffleOrder([]);
+    } else {
+      // Start the shuffled order from whatever is playing now
+      setShuffleOrder(shuffleIds(playlist.map(m => m.id), currentMedia?.id));
+    }
+    setShuffle(!shuffle);
+  };
+
+  const cycleRepeatMode = () => {
+    const modes: RepeatMode[] = ['off', 'all', 'one'];
+    setRepeatMode(modes[(modes.indexOf(repeatMode) + 1) % modes.length]);
+  };
+
+  const playOrder = { shuffle, repeat: repeatMode, order: shuffleOrder };
+
+  // Finishing a shuffle cycle on repeat-all starts a fresh shuffle instead of replaying the same order
+  const isShuffleCycleEnd = shuffle && repeatMode === 'all' && shuffleOrder.length > 1
+    && getPlayPosition(playlist, currentIndex, playOrder) >= shuffleOrder.length - 1;
+  useEffect(() => {
+    setNextShuffleOrder(isShuffleCycleEnd ? shuffleNewCycle(playlist.map(m => m.id), currentMedia?.id) : []);
+  }, [isShuffleCycleEnd, currentMedia?.id, playlistIds]);
+
+  const getStepIndex = (direction: 1 | -1): number | null => {
+    if (isShuffleCycleEnd && direction === 1) {
+      const order = nextShuffleOrder.length > 0 ? nextShuffleOrder : shuffleNewCycle(playlist.map(m => m.id), currentMedia?.id);
+      setShuffleOrder(order);
+      return playlist.findIndex(m => m.id === order[0]);
+    }
+    return getAdjacentIndex(playlist, currentIndex, direction, playOrder);
+  };
+
+  const hasPrevious = getAdjacentIndex(playlist, currentIndex, -1, playOrder) !== null;
+  const hasNext = getAdjacentIndex(playlist, currentIndex, 1, playOrder) !== null;
+  // A single track on repeat-all behaves like repeat-one
+  const loopCurrent = repeatMode === 'one' || (repeatMode === 'all' && playlist.length === 1);
+  // Preloaded by the radio so the hand-over at the end of the track has no gap
+  const nextIndex = loopCurrent ? null
+    : isShuffleCycleEnd && nextShuffleOrder.length > 0 ? playlist.findIndex(m => m.id === nextShuffleOrder[0])
+    : getAdjacentIndex(playlist, currentIndex, 1, playOrder);
+  const nextMedia = nextIndex !== null && nextIndex !== currentIndex ? playlist[nextIndex] : null;
+  // Last in play order, even when repeat-all would wrap around
+  const isLastTrack = getPlayPosition(playlist, currentIndex, playOrder) >= (shuffle ? shuffleOrder.length : playlist.length) - 1;
+
+  const handlePrevious = () => {
+    const index = getStepIndex(-1);
+    if (index !== null) jumpTo(index, isPlaying);
+  };
+
+  const handleNext = () => {
+    const index = getStepIndex(1);
+    if (index !== null) jumpTo(index, isPlaying);
   };
 
   const handleTrackFinish = () => {
-    if (currentIndex < playlist.length - 1) {
+    const index = getStepIndex(1);
+    if (index !== null && index !== currentIndex) {
         // Go to next track
-        setCurrentIndex(prev => prev + 1);
+        setCurrentIndex(index);
         setAutoPlayNext(true); 
-        setLyrics([]); // Reset lyrics
     } else {
         // End of playlist
         setIsPlaying(false);
@@ -78,28 +545,87 @@ const App: React.FC = () => {
     }
   };
 
-  const displayMedia = currentMedia ? {
-      ...currentMedia,
-      name: playlist.length > 1 
-        ? `[${currentIndex + 1}/${playlist.length}] ${currentMedia.name}`
-        : currentMedia.name
-  } : null;
+  // --- Keyboard Shortcuts (app-level; the radio and video modal register their own) ---
+  const VOLUME_STEP = 0.05;
+  const seasons = Object.values(Season) as Season[];
+
+  useShortcuts([
+    { id: 'next', keys: ['n', 'Shift+ArrowRight'], label: 'Piste suivante', group: 'Lecture', handler: handleNext },
+    { id: 'previous', keys: ['p', 'Shift+ArrowLeft'], label: 'Piste précédente', group: 'Lecture', handler: handlePrevious },
+    { id: 'volume-up', keys: ['ArrowUp'], label: 'Volume +', group: 'Volume', handler: () => handleVolumeChange(Math.min(1, volume + VOLUME_STEP)) },
+    { id: 'volume-down', keys: ['ArrowDown'], label: 'Volume −', group: 'Volume', handler: () => setVolume(Math.max(0, volume - VOLUME_STEP)) },
+    { id: 'mute', keys: ['m'], label: 'Muet', group: 'Volume', handler: () => setIsMuted(!isMuted) },
+    { id: 'season', keys: ['s'], label: 'Saison suivante', group: 'Affichage', handler: () => setSeason(seasons[(seasons.indexOf(season) + 1) % seasons.length]) },
+    { id: 'hide-player', keys: ['h'], label: 'Masquer / afficher le lecteur', group: 'Affichage', handler: () => setIsPlayerHidden(!isPlayerHidden) },
+    { id: 'lyrics-earlier', keys: ['['], label: 'Paroles plus tôt (piste)', group: 'Affichage', handler: () => handleLyricsOffsetChange(stepLyricsOffset(trackLyricsOffset, LYRICS_OFFSET_STEP)) },
+    { id: 'lyrics-later', keys: [']'], label: 'Paroles plus tard (piste)', group: 'Affichage', handler: () => handleLyricsOffsetChange(stepLyricsOffset(trackLyricsOffset, -LYRICS_OFFSET_STEP)) },
+    { id: 'lyrics-earlier-global', keys: ['{'], label: 'Paroles plus tôt (global)', group: 'Affichage', handler: () => setGlobalLyricsOffset(stepLyricsOffset(globalLyricsOffset, LYRICS_OFFSET_STEP)) },
+    { id: 'lyrics-later-global', keys: ['}'], label: 'Paroles plus tard (global)', group: 'Affichage', handler: () => setGlobalLyricsOffset(stepLyricsOffset(globalLyricsOffset, -LYRICS_OFFSET_STEP)) },
+    { id: 'lyrics-language', keys: ['t'], label: 'Paroles : original / traduction / les deux', group: 'Affichage', handler: () => setLyricsLanguage(nextLyricsLanguage(lyricsLanguage)) },
+    { id: 'equalizer', keys: ['e'], label: 'Égaliseur', group: 'Volume', handler: () => setShowEqualizer(!showEqualizer) },
+    { id: 'vintage-radio', keys: ['r'], label: "Radio d'antan", group: 'Volume', handler: () => setIsVintageRadio(!isVintageRadio) },
+    { id: 'help', keys: ['?'], label: 'Aide des raccourcis', group: 'Affichage', handler: () => setShowShortcuts(!showShortcuts) },
+  ]);
+
+  useShortcuts([
+    { id: 'help-close', keys: ['Escape'], label: "Fermer l'aide", group: 'Affichage', handler: () => setShowShortcuts(false) },
+  ], showShortcuts);
+
+  const playPosition = getPlayPosition(playlist, currentIndex, playOrder);
+  const modeGlyph = `${shuffle ? ' ⤮' : ''}${repeatMode === 'all' ? ' ↻' : repeatMode === 'one' ? ' ↻¹' : ''}`;
+
+  // Queue position and play-order glyphs shown in front of the track name, e.g. "[3/10 ⤮]"
+  const queueLabel = currentMedia && (playlist.length > 1 || modeGlyph)
+    ? `[${playPosition + 1}/${playlist.length}${modeGlyph}]`
+    : undefined;
+
+  // Files dropped anywhere on the page go through the same path as the upload button
+  const hasDraggedFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    dragDepthRef.current++;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    handleFileUpload(Array.from(e.dataTransfer.files));
+  };
 
   return (
     <div 
+        onDragEnter={handleDragEnter}
+        onDragOver={(e) => { if (hasDraggedFiles(e)) e.preventDefault(); }}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
         className={`relative w-full h-[100dvh] overflow-hidden flex flex-col ${season === Season.Autumn ? '' : 'transition-all duration-1000 ease-in-out'}`}
         style={{ 
             background: bgImage ? `url(${bgImage}) center/cover no-repeat` : getGradient(season)
         }}
     >
       {/* 1. Seasonal Overlay */}
-      <SeasonalCanvas season={season} />
+      <SeasonalCanvas 
+        season={season} 
+        getAudioBands={isAudioReactive && isPlaying ? readAudioBands : undefined} 
+      />
 
       {/* 2. Lyrics Overlay (Visible when player is hidden) */}
       <LyricsOverlay 
         lyrics={lyrics} 
-        currentTime={currentTime} 
+        offset={globalLyricsOffset + trackLyricsOffset}
         isVisible={isPlayerHidden} 
+        language={lyricsLanguage}
+        onSeek={currentMedia?.type === 'audio' ? handleLyricSeek : undefined}
       />
 
       {/* 3. Main Layout Container */}
@@ -117,7 +643,8 @@ const App: React.FC = () => {
         </div>
 
         {/* Player Section */}
-        <div className="flex-1 w-full flex items-center justify-center min-h-0 pointer-events-auto relative perspective-[1000px]">
+        {/* Lets clicks through to the lyrics underneath while the player is hidden */}
+        <div className={`flex-1 w-full flex items-center justify-center min-h-0 relative perspective-[1000px] ${isPlayerHidden ? 'pointer-events-none' : 'pointer-events-auto'}`}>
             {/* Player Wrapper */}
             {/* Widened constraint to allow 4:3 screen ratio to breathe */}
             <div 
@@ -134,13 +661,47 @@ const App: React.FC = () => {
                 }}
             >
                 <DoodleRadio 
-                    media={displayMedia} 
+                    media={currentMedia} 
+                    queueLabel={queueLabel}
                     onPlayStateChange={setIsPlaying}
                     onFileUpload={handleFileUpload}
-                    onLyricsLoaded={setLyrics}
-                    onTimeUpdate={setCurrentTime}
+                    onCoverUpload={handleCoverUpload}
+                    onLyricsLoaded={handleLyricsLoaded}
+                    onTimeUpdate={handleTimeUpdate}
                     onTrackFinish={handleTrackFinish}
+                    onPrevious={hasPrevious ? handlePrevious : undefined}
+                    onNext={hasNext ? handleNext : undefined}
+                    shuffle={shuffle}
+                    repeatMode={repeatMode}
+                    onToggleShuffle={toggleShuffle}
+                    onCycleRepeat={cycleRepeatMode}
+                    loop={loopCurrent}
+                    volume={volume}
+                    muted={isMuted}
+                    onVolumeChange={handleVolumeChange}
+                    onToggleMute={() => setIsMuted(!isMuted)}
+                    onGainChange={handleGainChange}
+                    lyricsOffset={trackLyricsOffset}
+                    globalLyricsOffset={globalLyricsOffset}
+                    onLyricsOffsetChange={handleLyricsOffsetChange}
+                    onGlobalLyricsOffsetChange={setGlobalLyricsOffset}
+                    lyricsLanguage={lyricsLanguage}
+                    onLyricsLanguageChange={setLyricsLanguage}
                     autoPlay={autoPlayNext}
+                    resumeAt={resumePoint && resumePoint.id === currentMedia?.id ? resumePoint.time : 0}
+                    seekRequest={seekRequest}
+                    pauseRequest={pauseRequest}
+                    nextMedia={nextMedia}
+                    isVintageRadio={isVintageRadio}
+                    onToggleVintageRadio={() => setIsVintageRadio(!isVintageRadio)}
+                    onShowEqualizer={() => setShowEqualizer(true)}
+                    crossfade={crossfade}
+                    playbackRate={playbackRate}
+                    preservePitch={preservePitch}
+                    onPlaybackRateChange={setPlaybackRate}
+                    onTogglePreservePitch={() => setPreservePitch(!preservePitch)}
+                    onBookmarksChange={handleBookmarksChange}
+                    onLoopRegionChange={handleLoopRegionChange}
                 />
             </div>
         </div>
@@ -153,14 +714,85 @@ const App: React.FC = () => {
         onBgUpload={handleBgUpload}
         isPlayerHidden={isPlayerHidden}
         onToggleVisibility={() => setIsPlayerHidden(!isPlayerHidden)}
+        onOpenLibrary={() => setShowLibrary(true)}
+        onOpenPlaylist={() => setShowPlaylist(true)}
+        isAudioReactive={isAudioReactive}
+        onToggleAudioReactive={() => setIsAudioReactive(!isAudioReactive)}
+        isPlaying={isPlaying}
+        isVideo={currentMedia?.type === 'video'}
+        isLastTrack={isLastTrack}
+        crossfade={crossfade}
+        onSleep={() => setPauseRequest(Date.now())}
+        sleepFade={sleepFade}
+        onSleepFadeChange={setSleepFade}
       />
 
-      {/* 5. Video Modal */}
+      {/* Playlist Drawer */}
+      {showPlaylist && (
+        <PlaylistDrawer
+            playlist={playlist}
+            currentIndex={currentIndex}
+            isPlaying={isPlaying}
+            onSelect={(index) => jumpTo(index, true)}
+            onRemove={removeFromPlaylist}
+            onReorder={handleReorder}
+            crossfade={crossfade}
+            onCrossfadeChange={setCrossfade}
+            onClose={() => setShowPlaylist(false)}
+        />
+      )}
+
+      {/* Keyboard Shortcut Help */}
+      {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
+
+      {/* Equalizer */}
+      {showEqualizer && (
+        <EqualizerPanel
+            gains={eqGains}
+            onChange={setEqGains}
+            presets={eqPresets}
+            onSavePreset={(preset) => setEqPresets(prev => [...prev.filter(p => p.name !== preset.name), preset])}
+            onDeletePreset={(name) => setEqPresets(prev => prev.filter(p => p.name !== name))}
+            isVintageRadio={isVintageRadio}
+            onToggleVintageRadio={() => setIsVintageRadio(!isVintageRadio)}
+            wowFlutter={wowFlutter}
+            onToggleWowFlutter={() => setWowFlutter(!wowFlutter)}
+            tapeHiss={tapeHiss}
+            onToggleTapeHiss={() => setTapeHiss(!tapeHiss)}
+            onClose={() => setShowEqualizer(false)}
+        />
+      )}
+
+      {/* 5. Media Library */}
+      {showLibrary && (
+        <LibraryPanel
+            currentId={currentMedia?.id}
+            playlistIds={playlist.map(m => m.id)}
+            onAdd={handleAddFromLibrary}
+            onRemove={handleRemoveFromLibrary}
+            onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {/* 6. Drop target hint */}
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/40 backdrop-blur-sm pointer-events-none animate-in fade-in duration-200">
+            <div className="px-8 py-6 rounded-3xl border-2 border-dashed border-white/60 text-white/90 text-center tracking-wider">
+                <div className="text-2xl" style={{ fontFamily: "'Londrina Sketch', cursive" }}>Déposez vos morceaux</div>
+                <div className="text-xs text-white/60 mt-1">Audio, video, and matching .lrc / .srt lyrics</div>
+            </div>
+        </div>
+      )}
+
+      {/* 7. Video Modal */}
       {currentMedia?.type === 'video' && (
         <VideoModal 
             url={currentMedia.url} 
-            onClose={() => setPlaylist([])} 
+            onClose={() => removeFromPlaylist(currentMedia.id)} 
             onEnded={handleTrackFinish}
+            loop={loopCurrent}
+            volume={volume}
+            muted={isMuted}
         />
       )}
 
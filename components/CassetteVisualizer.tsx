@@ -0,0 +1,148 @@
+import React, { useEffect, useRef } from 'react';
+import { readLogBands, readAudioBands } from '../services/audioAnalysis';
+import { useAnimationFrame } from '../hooks/useAnimationFrame';
+
+interface CassetteVisualizerProps {
+  isPlaying: boolean;
+}
+
+const BAR_COUNT = 24;
+const PEAK_FALL = 0.008; // Peak caps drop this much per frame
+const VU_ATTACK = 0.3;
+const VU_RELEASE = 0.05;
+
+// Hand-drawn spectrum analyzer + VU needle for the cassette window.
+// Lines are drawn twice with a small, stable per-bar offset so they look sketched rather than ruled.
+const CassetteVisualizer: React.FC<CassetteVisualizerProps> = ({ isPlaying }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const levelsRef = useRef<number[]>(new Array(BAR_COUNT).fill(0));
+  const peaksRef = useRef<number[]>(new Array(BAR_COUNT).fill(0));
+  const vuRef = useRef(0);
+  // Fixed wobble per bar so the sketch doesn't shimmer from frame to frame
+  const wobbleRef = useRef<number[]>([...Array(BAR_COUNT)].map(() => Math.random() * 2 - 1));
+
+  // Keep the canvas backing store matched to its on-screen size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resize = () => {
+      const rect = canvas.getBoundingClientRect();
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.max(1, Math.round(rect.width * dpr));
+      canvas.height = Math.max(1, Math.round(rect.height * dpr));
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const draw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.width / dpr;
+    const height = canvas.height / dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.lineCap = 'round';
+
+    // Levels ease towards the live spectrum (or back to zero when paused)
+    const live = isPlaying ? readLogBands(BAR_COUNT) : new Array(BAR_COUNT).fill(0);
+    const levels = levelsRef.current;
+    const peaks = peaksRef.current;
+    for (let i = 0; i < BAR_COUNT; i++) {
+      levels[i] += (live[i] - levels[i]) * (live[i] > levels[i] ? 0.5 : 0.15);
+      peaks[i] = Math.max(levels[i], peaks[i] - PEAK_FALL);
+    }
+
+    // --- Spectrum Bars ---
+    const left = width * 0.1;
+    const right = width * 0.9;
+    const baseline = height * 0.82;
+    const maxBar = height * 0.5;
+    const step = (right - left) / BAR_COUNT;
+
+    for (let i = 0; i < BAR_COUNT; i++) {
+      const x = left + step * (i + 0.5);
+      const h = Math.max(2, levels[i] * maxBar);
+      const wobble = wobbleRef.current[i];
+
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+      ctx.lineWidth = 1.2;
+      ctx.beginPath();
+      ctx.moveTo(x, baseline);
+      ctx.lineTo(x + wobble * 0.8, baseline - h);
+      ctx.stroke();
+
+      // Second, fainter pass for the sketched look
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+      ctx.lineWidth = 0.8;
+      ctx.beginPath();
+      ctx.moveTo(x + 1.2, baseline + 1);
+      ctx.lineTo(x + 1.2 - wobble, baseline - h + 2);
+      ctx.stroke();
+
+      // Peak cap
+      const peakY = baseline - Math.max(2, peaks[i] * maxBar) - 3;
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x - step * 0.3, peakY + wobble * 0.5);
+      ctx.lineTo(x + step * 0.3, peakY - wobble * 0.5);
+      ctx.stroke();
+    }
+
+    // Baseline, slightly uneven
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.lineWidth = 0.8;
+    ctx.beginPath();
+    ctx.moveTo(left - 4, baseline + 2);
+    ctx.quadraticCurveTo(width / 2, baseline + 3.5, right + 4, baseline + 1.5);
+    ctx.stroke();
+
+    // --- VU Needle (top-right) ---
+    const loudness = isPlaying ? readAudioBands().loudness : 0;
+    vuRef.current += (loudness - vuRef.current) * (loudness > vuRef.current ? VU_ATTACK : VU_RELEASE);
+
+    const cx = width * 0.86;
+    const cy = height * 0.36;
+    const radius = Math.min(width, height) * 0.12;
+    const startAngle = Math.PI * 1.2;
+    const endAngle = Math.PI * 1.8;
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.lineWidth = 0.8;
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, startAngle, endAngle);
+    ctx.stroke();
+    // "Red zone" ticks
+    for (let t = 0; t <= 4; t++) {
+      const a = startAngle + ((endAngle - startAngle) * t) / 4;
+      ctx.beginPath();
+      ctx.moveTo(cx + Math.cos(a) * radius, cy + Math.sin(a) * radius);
+      ctx.lineTo(cx + Math.cos(a) * (radius + (t === 4 ? 5 : 3)), cy + Math.sin(a) * (radius + (t === 4 ? 5 : 3)));
+      ctx.stroke();
+    }
+    const needle = startAngle + (endAngle - startAngle) * Math.min(1, vuRef.current);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = 1.2;
+    ctx.beginPath();
+    ctx.moveTo(cx, cy);
+    ctx.lineTo(cx + Math.cos(needle) * (radius + 2), cy + Math.sin(needle) * (radius + 2));
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.beginPath();
+    ctx.arc(cx, cy, 1.5, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
+  // Runs for as long as the view is mounted so the bars can settle after pausing
+  useAnimationFrame(draw, true);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+export default CassetteVisualizer;
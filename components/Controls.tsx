@@ -1,6 +1,8 @@
-import React from 'react';
-import { Season } from '../types';
-import { Image, CloudRain, Snowflake, Flower2, Leaf, Minimize2, Maximize2 } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Season, SleepTimerMode } from '../types';
+import { Image, CloudRain, Snowflake, Flower2, Leaf, Minimize2, Maximize2, Library, ListMusic, AudioWaveform, Moon } from 'lucide-react';
+import { useSleepTimer } from '../hooks/useSleepTimer';
+import { formatTime } from '../utils/time';
 
 interface ControlsProps {
   currentSeason: Season;
@@ -8,16 +10,70 @@ interface ControlsProps {
   onBgUpload: (file: File) => void;
   isPlayerHidden: boolean;
   onToggleVisibility: () => void;
+  onOpenLibrary: () => void;
+  onOpenPlaylist: () => void;
+  isAudioReactive: boolean;
+  onToggleAudioReactive: () => void;
+  isPlaying: boolean;
+  isVideo: boolean; // Videos play outside the radio, where the sleep timer can't pause them
+  isLastTrack: boolean; // The sleep timer's "end of playlist" stops after this one
+  crossfade: number;
+  onSleep: () => void; // Pauses the radio when the sleep timer runs out
+  sleepFade: number; // Seconds the sleep timer fades out over
+  onSleepFadeChange: (seconds: number) => void;
 }
 
+const SLEEP_OPTIONS: { mode: SleepTimerMode; label: string }[] = [
+  { mode: 15, label: '15 min' },
+  { mode: 30, label: '30 min' },
+  { mode: 60, label: '60 min' },
+  { mode: 'track', label: 'Fin du morceau' },
+  { mode: 'playlist', label: 'Fin de la playlist' },
+];
+const MAX_SLEEP_FADE = 60;
+
+// Countdown ring around the sleep timer button
+const RING_RADIUS = 18;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
 const Controls: React.FC<ControlsProps> = ({ 
   currentSeason, 
   setSeason, 
   onBgUpload,
   isPlayerHidden,
-  onToggleVisibility
+  onToggleVisibility,
+  onOpenLibrary,
+  onOpenPlaylist,
+  isAudioReactive,
+  onToggleAudioReactive,
+  isPlaying,
+  isVideo,
+  isLastTrack,
+  crossfade,
+  onSleep,
+  sleepFade,
+  onSleepFadeChange
 }) => {
-  
+  const [showSleepMenu, setShowSleepMenu] = useState(false);
+  const sleepTimer = useSleepTimer({ isPlaying, fadeSeconds: sleepFade, crossfade, isLastTrack, onSleep });
+  // A running timer would silently do nothing, so it stops (the button says why)
+  useEffect(() => {
+    if (!isVideo) return;
+    sleepTimer.cancel();
+    setShowSleepMenu(false);
+  }, [isVideo]);
+
+  const sleepRatio = sleepTimer.remaining !== null && sleepTimer.total
+    ? Math.min(1, Math.max(0, sleepTimer.remaining / sleepTimer.total))
+    : 1;
+  const sleepTitle = isVideo
+    ? "Sleep Timer: indisponible pendant une vidéo"
+    : sleepTimer.mode === null
+        ? "Sleep Timer"
+        : sleepTimer.remaining !== null && isFinite(sleepTimer.remaining)
+            ? `Sleep Timer: ${formatTime(sleepTimer.remaining)}`
+            : "Sleep Timer: fin de la playlist";
+
   const seasonConfig = [
     { type: Season.Spring, icon: Flower2 },
     { type: Season.Summer, icon: CloudRain },
@@ -67,6 +123,105 @@ const Controls: React.FC<ControlsProps> = ({
                 <Image size={16} strokeWidth={1.5} className="md:w-5 md:h-5 group-hover:scale-110 transition-transform" />
             </label>
 
+            {/* Audio-Reactive Particles */}
+            <button 
+                onClick={onToggleAudioReactive}
+                className={`flex items-center justify-center w-8 h-8 md:w-10 md:h-10 rounded-full transition-all group ${
+                    isAudioReactive ? 'bg-white/20 text-white' : 'text-white/60 hover:bg-white/20 hover:text-white'
+                }`}
+                title={isAudioReactive ? "Audio-Reactive Weather: On" : "Audio-Reactive Weather: Off"}
+            >
+                <AudioWaveform size={16} strokeWidth={1.5} className="md:w-5 md:h-5 group-hover:scale-110 transition-transform" />
+            </button>
+
+            {/* Playlist Drawer */}
+            <button 
+                onClick={onOpenPlaylist}
+                className="flex items-center justify-center w-8 h-8 md:w-10 md:h-10 rounded-full hover:bg-white/20 transition-all text-white group"
+                title="Playlist"
+            >
+                <ListMusic size={16} strokeWidth={1.5} className="md:w-5 md:h-5 group-hover:scale-110 transition-transform" />
+            </button>
+
+            {/* Media Library */}
+            <button 
+                onClick={onOpenLibrary}
+                className="flex items-center justify-center w-8 h-8 md:w-10 md:h-10 rounded-full hover:bg-white/20 transition-all text-white group"
+                title="Library"
+            >
+                <Library size={16} strokeWidth={1.5} className="md:w-5 md:h-5 group-hover:scale-110 transition-transform" />
+            </button>
+
+            {/* Sleep Timer (the wrapper carries the hint too: disabled buttons show no tooltip in some browsers) */}
+            <div className="relative" title={isVideo ? sleepTitle : undefined}>
+                <button
+                    onClick={() => setShowSleepMenu(!showSleepMenu)}
+                    disabled={isVideo}
+                    className={`relative flex items-center justify-center w-8 h-8 md:w-10 md:h-10 rounded-full transition-all group disabled:opacity-30 disabled:cursor-not-allowed ${
+                        sleepTimer.mode !== null ? 'bg-white/20 text-white' : 'text-white/60 hover:bg-white/20 hover:text-white'
+                    }`}
+                    title={sleepTitle}
+                >
+                    <Moon size={16} strokeWidth={1.5} className="md:w-5 md:h-5 group-hover:scale-110 transition-transform" />
+                    {sleepTimer.mode !== null && (
+                        <svg className="absolute inset-0 w-full h-full -rotate-90 pointer-events-none" viewBox="0 0 40 40">
+                            <circle
+                                cx="20"
+                                cy="20"
+                                r={RING_RADIUS}
+                                fill="none"
+                                stroke="currentColor"
+                                strokeWidth="1.5"
+                                strokeLinecap="round"
+                                strokeDasharray={RING_LENGTH}
+                                strokeDashoffset={RING_LENGTH * (1 - sleepRatio)}
+                                className={`transition-[stroke-dashoffset] duration-500 ${sleepTimer.remaining === null ? 'opacity-40' : ''}`}
+                            />
+                        </svg>
+                    )}
+                </button>
+
+                {showSleepMenu && (
+                    <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 w-52 p-3 rounded-2xl bg-zinc-900/90 backdrop-blur-xl border border-white/20 shadow-2xl text-white text-xs animate-in fade-in duration-200">
+                        <div className="text-[10px] tracking-[0.2em] text-white/40 mb-2 px-1">MINUTERIE</div>
+                        <div className="flex flex-col gap-0.5">
+                            {SLEEP_OPTIONS.map(option => (
+                                <button
+                                    key={option.mode}
+                                    onClick={() => { sleepTimer.start(option.mode); setShowSleepMenu(false); }}
+                                    className={`text-left px-2 py-1.5 rounded-lg transition-colors ${
+                                        sleepTimer.mode === option.mode ? 'bg-white text-black' : 'text-white/80 hover:bg-white/10 hover:text-white'
+                                    }`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-2 mt-3 px-1 text-[10px] tracking-wider text-white/50" title="Durée du fondu avant la pause">
+                            <span className="shrink-0">Fondu</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={MAX_SLEEP_FADE}
+                                step={5}
+                                value={sleepFade}
+                                onChange={(e) => onSleepFadeChange(Number(e.target.value))}
+                                className="flex-1 min-w-0 accent-white cursor-pointer"
+                            />
+                            <span className="w-8 text-right tabular-nums text-white/80">{sleepFade} s</span>
+                        </label>
+                        {sleepTimer.mode !== null && (
+                            <button
+                                onClick={() => { sleepTimer.cancel(); setShowSleepMenu(false); }}
+                                className="w-full mt-3 py-1.5 rounded-lg border border-white/10 text-white/60 hover:text-white hover:bg-red-500/80 transition-all"
+                            >
+                                Annuler
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+
             {/* Collapse/Expand Toggle */}
             <button 
                 onClick={onToggleVisibility}
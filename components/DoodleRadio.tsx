@@ -1,43 +1,165 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useSyncExternalStore } from 'react';
 import { createPortal } from 'react-dom';
-import { Play, Pause, Upload, Radio, ImagePlus, FileText, X, Save, FileUp, Download } from 'lucide-react';
-import { MediaData, LyricLine } from '../types';
+import { Play, Pause, SkipBack, SkipForward, Shuffle, Repeat, Repeat1, Volume2, VolumeX, Minus, Plus, Disc3, Image as ImageIcon, AudioWaveform, Upload, Radio, ImagePlus, FileText, X, Save, FileUp, Download, Timer, Languages, SlidersHorizontal, Bookmark as BookmarkIcon, BookmarkPlus, Music2 } from 'lucide-react';
+import { MediaData, LyricLine, RepeatMode, CassetteView, LyricsLanguage, Bookmark, LoopRegion } from '../types';
+import ProgressLine from './ProgressLine';
+import VolumeKnob from './VolumeKnob';
+import CassetteVisualizer from './CassetteVisualizer';
+import LyricsSyncEditor from './LyricsSyncEditor';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { useAnimationFrame } from '../hooks/useAnimationFrame';
+import { readLogBands } from '../services/audioAnalysis';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { usePlaybackTime } from '../hooks/usePlaybackTime';
+import { attachPlaybackClock } from '../services/playbackClock';
+import { getActiveDeck, subscribeDecks, subscribeHandOver, loadTrack, preloadNext, setDeckLevel, setCrossfade, setLoopRegion, stopDecks } from '../services/playbackEngine';
+import { attachTapeTransport, getTransportSpeed, resetTransport, startTransport, stopTransport, stepPlaybackRate, PLAYBACK_RATE_STEP } from '../services/tapeTransport';
+import { addBookmark, renameBookmark, removeBookmark, makeLoopRegion } from '../utils/bookmarks';
+import { useMediaSession } from '../hooks/useMediaSession';
+import { getTrackTitle } from '../utils/trackTitle';
+import { formatTime } from '../utils/time';
+import { formatLRC, parseLRC, setLrcOffsetTag, shiftLyrics, stepLyricsOffset, attachTranslation, hasTranslation, removeTranslation, LYRICS_OFFSET_STEP, LYRICS_LANGUAGES, LyricsWarning } from '../utils/lyrics';
+import { parseLyrics, serializeLyrics, detectLyricsFormat, ParsedLyrics, LyricsFormat, LYRICS_FORMATS, LYRICS_ACCEPT } from '../utils/lyricsFormats';
+import { readEmbeddedLyrics } from '../services/tagReader';
+import { getAudioContext, resumeAudioContext, dbToGain } from '../services/audioGraph';
+
+// Per-track gain trim range (dB)
+const GAIN_MIN = -12;
+const GAIN_MAX = 12;
+const GAIN_STEP = 0.5;
 
 interface DoodleRadioProps {
   media: MediaData | null;
+  queueLabel?: string; // e.g. "[3/10]", shown before the track name
   onPlayStateChange: (isPlaying: boolean) => void;
   onFileUpload: (files: File[]) => void;
+  onCoverUpload: (file: File) => void;
   onLyricsLoaded: (lyrics: LyricLine[]) => void;
   onTimeUpdate: (time: number) => void;
   onTrackFinish?: () => void;
+  onPrevious?: () => void; // Undefined when there is no previous track
+  onNext?: () => void; // Undefined when there is no next track
+  shuffle?: boolean;
+  repeatMode?: RepeatMode;
+  onToggleShuffle?: () => void;
+  onCycleRepeat?: () => void;
+  loop?: boolean; // Repeat the current track natively on the <audio> element
+  volume?: number; // Master volume, 0 - 1
+  muted?: boolean;
+  onVolumeChange?: (volume: number) => void;
+  onToggleMute?: () => void;
+  onGainChange?: (gainDb: number) => void;
+  lyricsOffset?: number; // Seconds, this track only (positive = lyrics earlier)
+  globalLyricsOffset?: number; // Seconds, every track
+  onLyricsOffsetChange?: (offset: number) => void;
+  onGlobalLyricsOffsetChange?: (offset: number) => void;
+  lyricsLanguage?: LyricsLanguage; // Bilingual lyrics: original, translation or both
+  onLyricsLanguageChange?: (language: LyricsLanguage) => void;
   autoPlay?: boolean;
+  resumeAt?: number; // Position (seconds) to restore once the track has loaded
+  seekRequest?: { time: number; id: number } | null; // Seek asked for elsewhere (lyrics); a new id seeks again
+  pauseRequest?: number; // Pause asked for elsewhere (sleep timer); a new id pauses again
+  nextMedia?: MediaData | null; // Track that plays after this one, preloaded for a gapless hand-over
+  crossfade?: number; // Seconds of equal-power crossfade into the next track, 0 for gapless
+  isVintageRadio?: boolean; // "Old transistor radio" tone (band-limited, saturated, mono)
+  onToggleVintageRadio?: () => void;
+  onShowEqualizer?: () => void;
+  playbackRate?: number; // 0.5 - 2
+  preservePitch?: boolean; // Keep the pitch when playing faster or slower
+  onPlaybackRateChange?: (rate: number) => void;
+  onTogglePreservePitch?: () => void;
+  onBookmarksChange?: (bookmarks: Bookmark[]) => void;
+  onLoopRegionChange?: (region: LoopRegion | undefined) => void;
 }
 
 const DoodleRadio: React.FC<DoodleRadioProps> = ({ 
   media, 
+  queueLabel,
   onPlayStateChange, 
   onFileUpload, 
+  onCoverUpload,
   onLyricsLoaded,
   onTimeUpdate,
   onTrackFinish,
-  autoPlay = false
+  onPrevious,
+  onNext,
+  shuffle = false,
+  repeatMode = 'off',
+  onToggleShuffle,
+  onCycleRepeat,
+  loop = false,
+  volume = 1,
+  muted = false,
+  onVolumeChange,
+  onToggleMute,
+  onGainChange,
+  lyricsOffset = 0,
+  globalLyricsOffset = 0,
+  onLyricsOffsetChange,
+  onGlobalLyricsOffsetChange,
+  lyricsLanguage = 'both',
+  onLyricsLanguageChange,
+  autoPlay = false,
+  resumeAt = 0,
+  seekRequest,
+  pauseRequest = 0,
+  nextMedia,
+  crossfade = 0,
+  isVintageRadio = false,
+  onToggleVintageRadio,
+  onShowEqualizer,
+  playbackRate = 1,
+  preservePitch = true,
+  onPlaybackRateChange,
+  onTogglePreservePitch,
+  onBookmarksChange,
+  onLoopRegionChange
 }) => {
-  const audioRef = useRef<HTMLAudioElement>(null);
+  // Audio plays on the engine's decks; this follows whichever is active (and is null for videos)
+  const deck = useSyncExternalStore(subscribeDecks, getActiveDeck);
+  const hasAudioElement = media?.type === 'audio';
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  audioRef.current = hasAudioElement ? deck : null;
   const [isPlaying, setIsPlaying] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [coverImage, setCoverImage] = useState<string | null>(null);
+  const [isWindingDown, setIsWindingDown] = useState(false);
+  const [duration, setDuration] = useState(0);
+  // Reel sizes only need whole percents, so the radio re-renders ~100 times per track, not every frame
+  const progress = usePlaybackTime(time => (duration > 0 ? Math.round((time / duration) * 100) : 0));
+  const pendingSeekRef = useRef(0);
+  const coverImage = media?.coverUrl || null;
+
+  // Cassette window view; "cover" falls back to the reels when the track has no cover
+  const [preferredView, setPreferredView] = usePersistentState<CassetteView>('cassetteView', 'cover');
+  const cassetteView: CassetteView = preferredView === 'cover' && !coverImage ? 'reels' : preferredView;
+  const grilleRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const reelRefs = useRef<(HTMLDivElement | null)[]>([]);
 
   // Lyrics Modal State
   const [showLyricsModal, setShowLyricsModal] = useState(false);
   const [pastedLyrics, setPastedLyrics] = useState("");
+  const [lyricsWarnings, setLyricsWarnings] = useState<LyricsWarning[]>([]);
+  const [isSyncingLyrics, setIsSyncingLyrics] = useState(false);
+  const [exportFormat, setExportFormat] = usePersistentState<LyricsFormat>('lyricsExportFormat', 'lrc');
+
+  // Practice: point A of an A-B repeat waiting for its B, and the bookmark list
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const [showBookmarks, setShowBookmarks] = useState(false);
+  const bookmarks = media?.bookmarks || [];
+  const loopRegion = media?.loopRegion || null;
+
+  const gainDb = media?.gainDb || 0;
 
   // Sound Effect Generator using Web Audio API
   const playMechanicalSound = () => {
+    // UI sounds follow the master volume too
+    const level = muted ? 0 : volume;
+    if (level < 0.01) return;
+
     try {
-      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-      if (!AudioContext) return;
-      const ctx = new AudioContext();
+      const ctx = getAudioContext();
+      if (!ctx) return;
+      resumeAudioContext();
 
       const currentTime = ctx.currentTime;
 
@@ -51,7 +173,7 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
       osc.frequency.setValueAtTime(100, currentTime);
       osc.frequency.exponentialRampToValueAtTime(300, currentTime + 0.4);
       
-      oscGain.gain.setValueAtTime(0.05, currentTime);
+      oscGain.gain.setValueAtTime(0.05 * level, currentTime);
       oscGain.gain.exponentialRampToValueAtTime(0.001, currentTime + 0.5);
 
       osc.start(currentTime);
@@ -65,7 +187,7 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
       
       clickOsc.frequency.setValueAtTime(800, currentTime);
       clickGain.gain.setValueAtTime(0, currentTime);
-      clickGain.gain.linearRampToValueAtTime(0.1, currentTime + 0.01);
+      clickGain.gain.linearRampToValueAtTime(0.1 * level, currentTime + 0.01);
       clickGain.gain.exponentialRampToValueAtTime(0.001, currentTime + 0.1);
       
       clickOsc.start(currentTime);
@@ -76,91 +198,188 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
     }
   };
 
+  // --- Volume ---
+  // The decks are routed through Web Audio so the per-track trim can also boost.
+  // Master volume, mute and trim are folded into each deck's gain node.
+  const outputLevel = muted ? 0 : volume * dbToGain(gainDb);
+  const nextLevel = muted ? 0 : volume * dbToGain(nextMedia?.gainDb || 0);
+
+  const changeGain = (delta: number) => {
+    if (!onGainChange) return;
+    const next = Math.min(GAIN_MAX, Math.max(GAIN_MIN, gainDb + delta));
+    onGainChange(Math.round(next * 2) / 2);
+  };
+
   const togglePlay = () => {
-    if (!audioRef.current || !media || media.type !== 'audio') return;
+    const audio = audioRef.current;
+    if (!audio || !media || media.type !== 'audio') return;
     
     if (isPlaying) {
-      audioRef.current.pause();
       setIsPlaying(false);
       onPlayStateChange(false);
+      // The reels keep turning while the tape winds down
+      setIsWindingDown(true);
+      stopTransport(audio).finally(() => setIsWindingDown(false));
     } else {
       if (isStarting) return;
       
       setIsStarting(true);
-      playMechanicalSound();
-
-      setTimeout(() => {
-        if (audioRef.current) {
-          audioRef.current.play()
-            .then(() => {
-              setIsPlaying(true);
-              onPlayStateChange(true);
-            })
-            .catch((err) => {
-              console.warn("Playback failed:", err);
-            })
-            .finally(() => {
-               setIsStarting(false);
-            });
-        } else {
-            setIsStarting(false);
-        }
-      }, 500);
+      resumeAudioContext();
+
+      startTransport(audio)
+        .then(() => {
+          setIsPlaying(true);
+          onPlayStateChange(true);
+        })
+        .catch((err) => {
+          console.warn("Playback failed:", err);
+        })
+        .finally(() => {
+           setIsStarting(false);
+        });
     }
   };
 
   useEffect(() => {
-    setProgress(0);
-    // Reset cover when media changes
-    setCoverImage(null);
-    // Clear lyrics implied by new song? Handled by parent usually, but we reset here visually if needed
-    
-    if (media && media.type === 'audio' && autoPlay) {
-      const timeoutId = setTimeout(() => {
-        if (audioRef.current) {
-          audioRef.current.play()
-            .then(() => {
-              setIsPlaying(true);
-              onPlayStateChange(true);
-            })
-            .catch((err) => {
-              console.warn("Auto-play blocked or failed:", err);
-              setIsPlaying(false);
-              onPlayStateChange(false);
-            });
-        }
-      }, 50);
-      return () => clearTimeout(timeoutId);
+    // Cover and lyrics travel with the media item, so only the resume point needs tracking here
+    pendingSeekRef.current = resumeAt;
+
+    if (!media || media.type !== 'audio') {
+      stopDecks();
+      setDuration(0);
+      setIsPlaying(false);
+      onPlayStateChange(false);
+      return;
+    }
+
+    const isHandedOver = loadTrack(media.url);
+    const audio = getActiveDeck();
+    // A preloaded (or handed-over) track is ready straight away, its metadata events long gone
+    setDuration(isFinite(audio.duration) ? audio.duration : 0);
+    // Already playing when the engine handed over to this track by itself
+    if (isHandedOver) return;
+    // A tape stop still winding down on this deck must not pause the new track
+    resetTransport(audio);
+    if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) handleLoadedMetadata();
+
+    if (autoPlay) {
+      // May be the session's first sound, e.g. a track picked in the playlist
+      resumeAudioContext();
+      startTransport(audio)
+        .then(() => {
+          setIsPlaying(true);
+          onPlayStateChange(true);
+        })
+        .catch((err) => {
+          console.warn("Auto-play blocked or failed:", err);
+          setIsPlaying(false);
+          onPlayStateChange(false);
+        });
     } else {
       setIsPlaying(false);
       onPlayStateChange(false);
     }
-  }, [media]);
+  }, [media?.url]);
 
-  // Clean up object URL for cover image
+  // After loading, so a deck swapped in above gets this track's level
   useEffect(() => {
-    return () => {
-      if (coverImage) {
-        URL.revokeObjectURL(coverImage);
-      }
-    };
-  }, [coverImage]);
+    if (hasAudioElement) setDeckLevel(outputLevel);
+  }, [outputLevel, media?.url]);
+
+  // The track after this one waits on the other deck
+  const nextUrl = hasAudioElement && nextMedia?.type === 'audio' ? nextMedia.url : null;
+  useEffect(() => {
+    preloadNext(nextUrl, nextLevel);
+  }, [nextUrl, nextLevel]);
+
+  useEffect(() => {
+    setCrossfade(crossfade);
+  }, [crossfade]);
+
+  // After loading too: a new track starts without the previous one's region
+  useEffect(() => {
+    setLoopRegion(hasAudioElement ? loopRegion : null);
+  }, [media?.url, hasAudioElement, loopRegion?.start, loopRegion?.end]);
+
+  useEffect(() => {
+    setLoopStart(null);
+  }, [media?.url]);
+
+  useEffect(() => stopDecks, []);
+
+  // Lyrics embedded in the file fill in when none are attached. Lyrics the user loaded
+  // (or deliberately cleared, which leaves an empty list) are never replaced.
+  // A file without any is stored with an empty list too, so it isn't scanned again on every play.
+  const hasLyrics = media?.lyrics !== undefined;
+  useEffect(() => {
+    if (!media || media.type !== 'audio' || hasLyrics) return;
+    // Lyrics set while the file is being read win: the cleanup drops the result
+    let cancelled = false;
+
+    fetch(media.url)
+      .then(response => response.blob())
+      .then(blob => readEmbeddedLyrics(blob, media.duration))
+      .then(lines => {
+        if (!cancelled) onLyricsLoaded(lines);
+      })
+      .catch(e => console.warn("Could not read embedded lyrics:", e));
+
+    return () => { cancelled = true; };
+  }, [media?.url, hasLyrics]);
+
+  const handleLoadedMetadata = () => {
+    const audio = getActiveDeck();
+    setDuration(audio.duration);
+    if (pendingSeekRef.current <= 0) return;
+    // Ignore stale positions from a file that has since become shorter
+    if (pendingSeekRef.current < audio.duration) {
+      audio.currentTime = pendingSeekRef.current;
+      handleTimeUpdate();
+    }
+    pendingSeekRef.current = 0;
+  };
 
   const handleTimeUpdate = () => {
     if (audioRef.current) {
-      const currentTime = audioRef.current.currentTime;
-      const duration = audioRef.current.duration;
-      const p = (currentTime / duration) * 100;
-      
-      setProgress(p || 0);
-      onTimeUpdate(currentTime);
+      onTimeUpdate(getActiveDeck().currentTime);
     }
   };
 
+  // Jump to a position and let listeners (lyrics, session) know straight away
+  const seekTo = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio || !isFinite(audio.duration)) return;
+    audio.currentTime = Math.min(Math.max(time, 0), audio.duration);
+    handleTimeUpdate();
+  };
+
+  // The shared clock (lyrics, progress line) and the tape transport follow the active deck
+  useEffect(() => {
+    if (!hasAudioElement) return;
+    const detachClock = attachPlaybackClock(deck);
+    const detachTape = attachTapeTransport(deck);
+    return () => {
+      detachClock();
+      detachTape();
+    };
+  }, [deck, hasAudioElement]);
+
+  useEffect(() => {
+    deck.loop = hasAudioElement && loop;
+  }, [deck, loop, hasAudioElement]);
+
+  useEffect(() => {
+    if (seekRequest) seekTo(seekRequest.time);
+  }, [seekRequest?.id]);
+
+  // Through togglePlay, so the tape winds down like any other pause
+  useEffect(() => {
+    if (pauseRequest && isPlaying) togglePlay();
+  }, [pauseRequest]);
+
   const handleEnded = () => {
     setIsPlaying(false);
     onPlayStateChange(false);
-    setProgress(0);
     if (onTrackFinish) {
         onTrackFinish();
     }
@@ -168,44 +387,173 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const files = Array.from(e.target.files).slice(0, 5);
-      onFileUpload(files);
+      onFileUpload(Array.from(e.target.files));
+      // Allow picking the same file again later
+      e.target.value = '';
     }
   };
 
+  // --- Cassette Window View ---
+  const cycleCassetteView = () => {
+    const views: CassetteView[] = coverImage ? ['reels', 'cover', 'visualizer'] : ['reels', 'visualizer'];
+    setPreferredView(views[(views.indexOf(cassetteView) + 1) % views.length]);
+  };
+
+  // Speaker grille lines pulse with the frequency bands (bass at the top), written straight to the DOM
+  const GRILLE_LINES = 5;
+  useAnimationFrame(() => {
+    const bands = readLogBands(GRILLE_LINES, 40, 10000);
+    grilleRefs.current.forEach((line, i) => {
+      if (!line) return;
+      const level = bands[i % GRILLE_LINES];
+      line.style.transform = `scaleX(${0.3 + level * 0.7})`;
+      line.style.opacity = `${0.4 + level * 0.6}`;
+    });
+  }, isPlaying);
+
+  // Reels turn with the simulated tape speed, the emptier one faster (same tape speed, smaller pack)
+  const REEL_DEGREES_PER_SECOND = 90; // at half a pack, i.e. mid-track
+  const REEL_MID_SIZE = 35;
+  const reelSizes = [Math.max(20, 50 - progress * 0.3), Math.max(20, 20 + progress * 0.3)];
+  const reelAnglesRef = useRef([0, 0]);
+  const lastReelFrameRef = useRef(0);
+  useAnimationFrame(time => {
+    // Capped so a frame after a long pause doesn't jump
+    const elapsed = Math.min(0.1, (time - lastReelFrameRef.current) / 1000);
+    lastReelFrameRef.current = time;
+    const speed = getTransportSpeed();
+    reelRefs.current.forEach((reel, i) => {
+      if (!reel) return;
+      const angle = (reelAnglesRef.current[i] + speed * REEL_DEGREES_PER_SECOND * (REEL_MID_SIZE / reelSizes[i]) * elapsed) % 360;
+      reelAnglesRef.current[i] = angle;
+      reel.style.transform = `rotate(${angle}deg)`;
+    });
+  }, isPlaying || isStarting || isWindingDown);
+
+  useEffect(() => {
+    if (isPlaying) return;
+    grilleRefs.current.forEach(line => {
+      if (!line) return;
+      line.style.transform = '';
+      line.style.opacity = '';
+    });
+  }, [isPlaying]);
+
+  // --- Practice: speed, A-B repeat, bookmarks ---
+  const changePlaybackRate = (delta: number) => {
+    if (onPlaybackRateChange) onPlaybackRateChange(stepPlaybackRate(playbackRate, delta));
+  };
+
+  // First press sets A, the second B, a third clears the repeat
+  const cycleLoop = () => {
+    const audio = audioRef.current;
+    if (!audio || !onLoopRegionChange) return;
+    if (loopRegion) {
+      onLoopRegionChange(undefined);
+    } else if (loopStart === null) {
+      setLoopStart(audio.currentTime);
+    } else {
+      const region = makeLoopRegion(loopStart, audio.currentTime);
+      if (!region) return;
+      onLoopRegionChange(region);
+      setLoopStart(null);
+    }
+  };
+
+  const handleAddBookmark = () => {
+    const audio = audioRef.current;
+    if (!audio || !onBookmarksChange) return;
+    onBookmarksChange(addBookmark(bookmarks, audio.currentTime));
+    setShowBookmarks(true);
+  };
+
+  // --- Keyboard Shortcuts ---
+  const SEEK_STEP = 5;
+  useShortcuts([
+    { id: 'play-pause', keys: ['Space', 'k'], label: 'Lecture / pause', group: 'Lecture', handler: togglePlay },
+    { id: 'seek-back', keys: ['ArrowLeft'], label: `Reculer de ${SEEK_STEP}s`, group: 'Lecture', handler: () => audioRef.current && seekTo(audioRef.current.currentTime - SEEK_STEP) },
+    { id: 'seek-forward', keys: ['ArrowRight'], label: `Avancer de ${SEEK_STEP}s`, group: 'Lecture', handler: () => audioRef.current && seekTo(audioRef.current.currentTime + SEEK_STEP) },
+    { id: 'lyrics-modal', keys: ['l'], label: 'Paroles', group: 'Affichage', handler: () => setShowLyricsModal(true) },
+    { id: 'cassette-view', keys: ['v'], label: 'Vue de la cassette', group: 'Affichage', handler: cycleCassetteView },
+    { id: 'speed-down', keys: ['<'], label: 'Ralentir', group: 'Lecture', handler: () => changePlaybackRate(-PLAYBACK_RATE_STEP) },
+    { id: 'speed-up', keys: ['>'], label: 'Accélérer', group: 'Lecture', handler: () => changePlaybackRate(PLAYBACK_RATE_STEP) },
+    { id: 'ab-loop', keys: ['a'], label: 'Boucle A-B (A, puis B, puis effacer)', group: 'Lecture', handler: cycleLoop },
+    { id: 'bookmark', keys: ['b'], label: 'Ajouter un repère', group: 'Lecture', handler: handleAddBookmark },
+  ]);
+
+  // Like a tape deck: "previous" rewinds the current track first unless we are near its start
+  const handlePrevious = () => {
+    if (audioRef.current && audioRef.current.currentTime > 3) {
+      seekTo(0);
+      return;
+    }
+    if (onPrevious) onPrevious();
+  };
+
+  // --- OS / Hardware Media Keys ---
+  const isAudio = media?.type === 'audio';
+  const { updatePositionState } = useMediaSession({
+    title: isAudio ? (media.title || media.name) : null,
+    artist: media?.artist,
+    album: media?.album,
+    artworkUrl: coverImage,
+    isPlaying,
+    duration,
+    playbackRate,
+    actions: {
+      play: () => { if (!isPlaying) togglePlay(); },
+      pause: () => { if (isPlaying) togglePlay(); },
+      previous: isAudio ? handlePrevious : undefined,
+      next: onNext,
+      seekTo,
+      getPosition: () => audioRef.current?.currentTime || 0
+    }
+  });
+
+  // The decks outlive renders, so their listeners go through a ref to reach the latest handlers
+  const deckHandlersRef = useRef({ handleLoadedMetadata, handleTimeUpdate, handleEnded, updatePositionState, onTrackFinish });
+  deckHandlersRef.current = { handleLoadedMetadata, handleTimeUpdate, handleEnded, updatePositionState, onTrackFinish };
+
+  useEffect(() => {
+    if (!hasAudioElement) return;
+    // A deck that was just handed over from still plays out its tail; only the active one counts
+    const ifActive = (handler: () => void) => () => {
+      if (deck === getActiveDeck()) handler();
+    };
+    const listeners: Record<string, () => void> = {
+      loadedmetadata: ifActive(() => deckHandlersRef.current.handleLoadedMetadata()),
+      durationchange: ifActive(() => setDuration(deck.duration)),
+      timeupdate: ifActive(() => deckHandlersRef.current.handleTimeUpdate()),
+      seeked: ifActive(() => deckHandlersRef.current.updatePositionState()),
+      ended: ifActive(() => deckHandlersRef.current.handleEnded()),
+    };
+    Object.entries(listeners).forEach(([type, listener]) => deck.addEventListener(type, listener));
+    return () => Object.entries(listeners).forEach(([type, listener]) => deck.removeEventListener(type, listener));
+  }, [deck, hasAudioElement]);
+
+  // The engine moved on to the preloaded track by itself: the playlist follows, playback carries on
+  useEffect(() => subscribeHandOver(() => deckHandlersRef.current.onTrackFinish?.()), []);
+
   const handleCoverUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
-      const url = URL.createObjectURL(file);
-      setCoverImage(url);
+      onCoverUpload(e.target.files[0]);
     }
   };
 
-  // --- Lyrics Parsing Logic ---
-  const parseLRC = (lrcString: string): LyricLine[] => {
-    const lines = lrcString.split('\n');
-    const lyrics: LyricLine[] = [];
-    const timeRegex = /\[(\d{2}):(\d{2})\.(\d{2,3})\]/;
-
-    lines.forEach(line => {
-      const match = line.match(timeRegex);
-      if (match) {
-        const minutes = parseInt(match[1], 10);
-        const seconds = parseInt(match[2], 10);
-        const milliseconds = parseInt(match[3], 10);
-        // Normalize milliseconds (some lrc use 2 digits, some 3)
-        const ms = match[3].length === 3 ? milliseconds : milliseconds * 10;
-        const time = minutes * 60 + seconds + ms / 1000;
-        const text = line.replace(timeRegex, '').trim();
-        if (text) {
-          lyrics.push({ time, text });
-        }
-      } else {
-         // Fallback for non-timestamped lines if we wanted, but for sync we skip
-         // or could push with previous time.
-      }
-    });
-    return lyrics;
+  // Parses LRC text and shows its problems line by line under the editor
+  // LRC, SRT, WebVTT and TTML are told apart by their content (the file name only breaks ties)
+  const parseLyricsText = (text: string, fileName?: string): ParsedLyrics => {
+    const parsed = parseLyrics(text, fileName);
+    const shown = parsed.lyrics.length > 0
+      ? parsed.warnings
+      : [...parsed.warnings, {
+          line: 0,
+          message: parsed.format === 'lrc'
+            ? 'No timed lines found. Lines should start with [mm:ss.xx].'
+            : `No cues found in this ${parsed.format.toUpperCase()} file.`
+        }];
+    setLyricsWarnings(shown);
+    return { ...parsed, warnings: shown };
   };
 
   const handleLyricsUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -214,54 +562,121 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
         const reader = new FileReader();
         reader.onload = (ev) => {
             const text = ev.target?.result as string;
-            // Update textarea for editing
-            setPastedLyrics(text);
-            
-            const parsed = parseLRC(text);
-            if (parsed.length > 0) {
-                onLyricsLoaded(parsed);
+            const { format, lyrics } = parseLyricsText(text, file.name);
+            // The editor works in LRC; subtitle files are converted (keeping cue ends as blank timed lines)
+            setPastedLyrics(format === 'lrc' || lyrics.length === 0 ? text : formatLRC(lyrics));
+
+            if (lyrics.length > 0) {
+                onLyricsLoaded(lyrics);
                 // Don't close modal automatically, let user see the text
-                // setShowLyricsModal(false); 
                 playMechanicalSound();
-            } else {
-                alert("Could not parse lyrics. Please use standard .lrc format.");
             }
         };
         reader.readAsText(file);
     }
+    e.target.value = '';
   };
 
   const handleSavePastedLyrics = () => {
-    const parsed = parseLRC(pastedLyrics);
-    if (parsed.length > 0) {
-        onLyricsLoaded(parsed);
+    if (pastedLyrics.trim() === "") {
+        setLyricsWarnings([]);
+        onLyricsLoaded([]);
         setShowLyricsModal(false);
+        return;
+    }
+    const { lyrics, warnings } = parseLyricsText(pastedLyrics);
+    if (lyrics.length > 0) {
+        onLyricsLoaded(lyrics);
         playMechanicalSound();
+        // Stay open when some lines were skipped so the warnings can be read
+        if (warnings.length === 0) setShowLyricsModal(false);
         // Keep pastedLyrics in state in case they open modal again to edit
-    } else if (pastedLyrics.trim() === "") {
-        onLyricsLoaded([]);
-        setShowLyricsModal(false);
-    } else {
-        alert("Could not parse text. Ensure lines start with [mm:ss.xx].");
     }
   };
 
+  // Tap-to-sync result: becomes the editor's LRC text (ready for download) and the live lyrics
+  const handleSyncedLyrics = (lyrics: LyricLine[]) => {
+    setPastedLyrics(formatLRC(lyrics, { title: media?.title, artist: media?.artist, album: media?.album }));
+    setLyricsWarnings([]);
+    setIsSyncingLyrics(false);
+    onLyricsLoaded(lyrics);
+    playMechanicalSound();
+  };
+
+  // The lyrics a translation goes with: the editor's, or the loaded ones when it's empty
+  const currentLyrics = (): LyricLine[] => (pastedLyrics.trim() ? parseLyrics(pastedLyrics).lyrics : media?.lyrics || []);
+
+  // Translation changes rewrite the editor as bilingual LRC (a repeated timestamp per translated line)
+  const applyTranslatedLyrics = (lyrics: LyricLine[]) => {
+    setPastedLyrics(formatLRC(lyrics, { title: media?.title, artist: media?.artist, album: media?.album }));
+    setLyricsWarnings([]);
+    onLyricsLoaded(lyrics);
+    playMechanicalSound();
+  };
+
+  // A translation file in any lyrics format, or plain text with one line per original line
+  const handleTranslationUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+        const file = e.target.files[0];
+        const reader = new FileReader();
+        reader.onload = (ev) => {
+            const text = ev.target?.result as string;
+            const base = currentLyrics();
+            if (base.length === 0) {
+                setLyricsWarnings([{ line: 0, message: 'Load the original lyrics before their translation.' }]);
+                return;
+            }
+            const { lyrics } = parseLyrics(text, file.name);
+            const translated = attachTranslation(base, lyrics.length > 0 ? lyrics : text.split(/\r?\n/));
+            if (!hasTranslation(translated)) {
+                setLyricsWarnings([{ line: 0, message: 'No translation lines found in this file.' }]);
+                return;
+            }
+            applyTranslatedLyrics(translated);
+        };
+        reader.readAsText(file);
+    }
+    e.target.value = '';
+  };
+
+  const closeLyricsModal = () => {
+    setShowLyricsModal(false);
+    setIsSyncingLyrics(false);
+  };
+
+  // Exports what's in the editor, or the loaded lyrics (e.g. embedded ones) when it's empty
   const handleDownloadLyrics = () => {
-    if (!pastedLyrics.trim()) {
-      alert("No lyrics content to download.");
+    const editorText = pastedLyrics.trim();
+    const source = editorText ? parseLyrics(pastedLyrics).lyrics : media?.lyrics || [];
+    if (source.length === 0) {
+      setLyricsWarnings([{ line: 0, message: 'No lyrics content to download.' }]);
       return;
     }
 
-    const blob = new Blob([pastedLyrics], { type: 'text/plain' });
+    const { extension, mime } = LYRICS_FORMATS.find(f => f.format === exportFormat)!;
+    // The offset the user dialled in travels as [offset:] in LRC, and is baked into the cue times elsewhere
+    const offset = lyricsOffset + globalLyricsOffset;
+    const metadata = { title: media?.title, artist: media?.artist, album: media?.album };
+    let content: string;
+    if (exportFormat === 'lrc' && editorText && detectLyricsFormat(pastedLyrics) === 'lrc') {
+      // LRC typed in the editor goes out verbatim so comments and tags survive; its own offset adds up with ours
+      content = setLrcOffsetTag(pastedLyrics, parseLRC(pastedLyrics).metadata.offset + offset * 1000);
+    } else if (exportFormat === 'lrc') {
+      content = serializeLyrics(source, 'lrc', { ...metadata, offset: offset * 1000 });
+    } else {
+      content = serializeLyrics(shiftLyrics(source, offset), exportFormat, metadata);
+    }
+
+    const blob = new Blob([content], { type: mime });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
     
     // Determine filename
-    let filename = 'lyrics.lrc';
+    let filename = `lyrics.${extension}`;
     if (media && media.name) {
         // Strip existing extension if present
-        filename = media.name.replace(/\.[^/.]+$/, "") + ".lrc";
+        filename = media.name.replace(/\.[^/.]+$/, "") + `.${extension}`;
     }
     
     a.download = filename;
@@ -274,16 +689,6 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
 
   return (
     <div className="relative w-full mx-auto p-2">
-      {/* Audio Element */}
-      {media?.type === 'audio' && (
-        <audio
-          ref={audioRef}
-          src={media.url}
-          onTimeUpdate={handleTimeUpdate}
-          onEnded={handleEnded}
-        />
-      )}
-
       {/* Main Radio Body */}
       {/* Reduced padding and rounding slightly for tighter fit */}
       <div className="relative border border-white/70 rounded-[2rem] md:rounded-[3rem] p-5 md:p-8 bg-white/5 backdrop-blur-[4px] shadow-[0_8px_40px_rgba(0,0,0,0.1)] z-10 transition-all duration-500 hover:shadow-[0_12px_60px_rgba(255,255,255,0.15)] group">
@@ -316,10 +721,37 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
                    <div className="w-6 h-[1px] bg-white/60"></div>
                    <div className="w-4 h-[1px] bg-white/60"></div>
                </div>
-               <span className="text-[10px] md:text-xs font-light tracking-[0.3em] text-white/90 font-serif">HAUTE FIDÉLITÉ</span>
+               {/* The branding doubles as the tone switch: hi-fi, or the old transistor set */}
+               <button
+                   onClick={onToggleVintageRadio}
+                   disabled={!onToggleVintageRadio}
+                   className={`text-[10px] md:text-xs font-light tracking-[0.3em] font-serif transition-colors duration-500 ${
+                       isVintageRadio ? 'text-amber-200 drop-shadow-[0_0_6px_rgba(253,230,138,0.5)]' : 'text-white/90 hover:text-white'
+                   }`}
+                   title={isVintageRadio ? "Radio d'antan · cliquer pour la haute fidélité" : "Haute fidélité · cliquer pour la radio d'antan"}
+               >
+                   {isVintageRadio ? "RADIO D'ANTAN" : 'HAUTE FIDÉLITÉ'}
+               </button>
            </div>
            
            <div className="flex items-center gap-2">
+               {/* Play Order Toggles */}
+               <button
+                   onClick={onToggleShuffle}
+                   className={`w-6 h-6 rounded-full flex items-center justify-center transition-all duration-300 hover:bg-white/10 ${shuffle ? 'text-white' : 'text-white/40'}`}
+                   title={shuffle ? "Shuffle: On" : "Shuffle: Off"}
+               >
+                   <Shuffle size={12} strokeWidth={shuffle ? 2 : 1.2} />
+               </button>
+               <button
+                   onClick={onCycleRepeat}
+                   className={`w-6 h-6 mr-1 rounded-full flex items-center justify-center transition-all duration-300 hover:bg-white/10 ${repeatMode !== 'off' ? 'text-white' : 'text-white/40'}`}
+                   title={repeatMode === 'one' ? "Repeat: One" : repeatMode === 'all' ? "Repeat: All" : "Repeat: Off"}
+               >
+                   {repeatMode === 'one'
+                       ? <Repeat1 size={12} strokeWidth={2} />
+                       : <Repeat size={12} strokeWidth={repeatMode === 'all' ? 2 : 1.2} />}
+               </button>
                <div className={`w-1.5 h-1.5 rounded-full transition-all duration-500 ${isPlaying ? 'bg-emerald-300 shadow-[0_0_8px_#6ee7b7]' : 'bg-white/30'}`}></div>
                <span className="text-[9px] tracking-[0.2em] text-white/70">EN ONDE</span>
            </div>
@@ -335,7 +767,7 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
           />
           
           {/* Cover Image Layer */}
-          {coverImage && (
+          {coverImage && cassetteView === 'cover' && (
             <div className="absolute inset-0 z-0">
                 <img src={coverImage} alt="Song Cover" className={`w-full h-full object-cover opacity-90 transition-transform duration-[10s] ease-linear ${isPlaying ? 'scale-110' : 'scale-100'}`} />
                 <div className="absolute inset-0 bg-black/20"></div> {/* Dim for text readability */}
@@ -359,20 +791,49 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
           <div className="absolute top-3 left-0 w-full flex justify-center z-30 overflow-hidden pointer-events-none">
              <div className="max-w-[85%] whitespace-nowrap overflow-hidden px-4 py-1 rounded-full bg-black/20 backdrop-blur-md border border-white/10">
                   <span className="text-[10px] md:text-xs font-light tracking-widest text-white/90 inline-block uppercase drop-shadow-md">
-                     {media ? media.name : "Insérer la cassette"}
+                     {media ? (queueLabel ? `${queueLabel} ${getTrackTitle(media)}` : getTrackTitle(media)) : "Insérer la cassette"}
                   </span>
              </div>
           </div>
 
+          {/* Spectrum / VU Layer */}
+          {cassetteView === 'visualizer' && media?.type === 'audio' && (
+            <div className="absolute inset-0 z-10">
+                <CassetteVisualizer isPlaying={isPlaying} />
+            </div>
+          )}
+
+          {/* View Switcher (reels / cover / visualizer) */}
+          {media?.type === 'audio' && (
+            <button
+                onClick={(e) => {
+                    // Don't let the surrounding label open the cover picker
+                    e.preventDefault();
+                    e.stopPropagation();
+                    cycleCassetteView();
+                }}
+                className="absolute bottom-2 right-2 z-30 w-7 h-7 rounded-full flex items-center justify-center bg-black/20 backdrop-blur-md border border-white/10 text-white/70 hover:text-white hover:bg-black/40 transition-all"
+                title={`View: ${cassetteView} (click to change)`}
+            >
+                {cassetteView === 'visualizer' ? (
+                    <AudioWaveform size={12} strokeWidth={1.2} />
+                ) : cassetteView === 'cover' ? (
+                    <ImageIcon size={12} strokeWidth={1.2} />
+                ) : (
+                    <Disc3 size={12} strokeWidth={1.2} />
+                )}
+            </button>
+          )}
+
           {/* Animation Content */}
-          {!coverImage && (
+          {(cassetteView === 'reels' || media?.type !== 'audio') && (
             <div className="w-full flex items-center justify-center gap-6 md:gap-12 mt-3 relative z-10">
                 {media?.type === 'audio' ? (
                     <>
                         {/* Reels adapted for wider 4:3 display */}
                         <div 
-                            className={`relative w-16 h-16 md:w-28 md:h-28 border border-white/80 rounded-full flex items-center justify-center ${isPlaying ? 'animate-spin' : ''}`} 
-                            style={{ animationDuration: '4s', animationTimingFunction: 'linear' }}
+                            ref={(el) => { reelRefs.current[0] = el }}
+                            className="relative w-16 h-16 md:w-28 md:h-28 border border-white/80 rounded-full flex items-center justify-center"
                         >
                             <div className="absolute w-full h-full rounded-full border-[5px] border-white/10"></div>
                             <div className="absolute w-[1px] h-full bg-white/40"></div>
@@ -381,8 +842,8 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
                             <div 
                                 className="absolute bg-white/20 rounded-full transition-all duration-1000 backdrop-blur-sm"
                                 style={{ 
-                                    width: `${Math.max(20, (50 - (progress * 0.3)))}%`, 
-                                    height: `${Math.max(20, (50 - (progress * 0.3)))}%` 
+                                    width: `${reelSizes[0]}%`, 
+                                    height: `${reelSizes[0]}%` 
                                 }}
                             ></div>
                             <div className="w-2 h-2 md:w-3 md:h-3 bg-white rounded-full z-10 shadow-sm"></div>
@@ -394,8 +855,8 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
                         </div>
 
                         <div 
-                            className={`relative w-16 h-16 md:w-28 md:h-28 border border-white/80 rounded-full flex items-center justify-center ${isPlaying ? 'animate-spin' : ''}`} 
-                            style={{ animationDuration: '4s', animationTimingFunction: 'linear' }}
+                            ref={(el) => { reelRefs.current[1] = el }}
+                            className="relative w-16 h-16 md:w-28 md:h-28 border border-white/80 rounded-full flex items-center justify-center"
                         >
                             <div className="absolute w-full h-full rounded-full border-[5px] border-white/10"></div>
                             <div className="absolute w-[1px] h-full bg-white/40"></div>
@@ -404,8 +865,8 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
                             <div 
                                 className="absolute bg-white/20 rounded-full transition-all duration-1000 backdrop-blur-sm"
                                 style={{ 
-                                    width: `${Math.max(20, (20 + (progress * 0.3)))}%`, 
-                                    height: `${Math.max(20, (20 + (progress * 0.3)))}%` 
+                                    width: `${reelSizes[1]}%`, 
+                                    height: `${reelSizes[1]}%` 
                                 }}
                             ></div>
                             <div className="w-2 h-2 md:w-3 md:h-3 bg-white rounded-full z-10 shadow-sm"></div>
@@ -422,26 +883,126 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
         </label>
 
         {/* Progress Bar - Minimalist Line */}
-        <div className="w-full h-[1px] bg-white/20 mb-4 md:mb-6 relative group cursor-pointer">
-             <div className="absolute -top-3 -bottom-3 w-full z-10"></div>
-             <div 
-               className="h-full bg-white/90 relative transition-all duration-300 shadow-[0_0_10px_rgba(255,255,255,0.3)]"
-               style={{ width: `${progress}%` }}
-             >
-                <div className="absolute right-0 top-1/2 -translate-y-1/2 w-2.5 h-2.5 bg-white rotate-45 shadow-md scale-0 group-hover:scale-100 transition-transform duration-200"></div>
-             </div>
+        <ProgressLine
+            duration={duration}
+            onSeek={seekTo}
+            disabled={media?.type !== 'audio'}
+            bookmarks={bookmarks}
+            loopRegion={loopRegion}
+            loopStart={loopStart}
+        />
+
+        {/* Practice Strip: speed, A-B repeat, bookmarks */}
+        <div className={`flex items-center justify-between -mt-2 md:-mt-4 mb-3 md:mb-4 px-1 text-[9px] tracking-[0.2em] text-white/60 ${media?.type === 'audio' ? '' : 'opacity-40 pointer-events-none'}`}>
+            <div className="flex items-center gap-1">
+                <button
+                    onClick={() => changePlaybackRate(-PLAYBACK_RATE_STEP)}
+                    className="w-5 h-5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                    title="Ralentir"
+                >
+                    <Minus size={10} strokeWidth={1.2} />
+                </button>
+                <span
+                    className={`w-10 text-center tabular-nums cursor-default ${playbackRate !== 1 ? 'text-white' : ''}`}
+                    onDoubleClick={() => onPlaybackRateChange && onPlaybackRateChange(1)}
+                    title="Vitesse de lecture · double-clic pour revenir à 1×"
+                >
+                    {playbackRate.toFixed(2)}×
+                </span>
+                <button
+                    onClick={() => changePlaybackRate(PLAYBACK_RATE_STEP)}
+                    className="w-5 h-5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                    title="Accélérer"
+                >
+                    <Plus size={10} strokeWidth={1.2} />
+                </button>
+                <button
+                    onClick={onTogglePreservePitch}
+                    className={`w-5 h-5 rounded-full flex items-center justify-center hover:bg-white/10 transition-colors ${preservePitch ? 'text-white' : 'text-white/40 line-through'}`}
+                    title={preservePitch ? "Tonalité conservée" : "La tonalité suit la vitesse"}
+                >
+                    <Music2 size={10} strokeWidth={1.2} />
+                </button>
+            </div>
+
+            <div className="flex items-center gap-1">
+                <button
+                    onClick={cycleLoop}
+                    className={`px-2 h-5 rounded-full transition-colors ${
+                        loopRegion ? 'bg-amber-200 text-black' : loopStart !== null ? 'text-amber-200 animate-pulse' : 'hover:bg-white/10 hover:text-white'
+                    }`}
+                    title={loopRegion ? "Effacer la boucle A-B" : loopStart !== null ? "Placer le point B" : "Placer le point A"}
+                >
+                    {loopStart !== null ? 'A-…' : 'A-B'}
+                </button>
+                <button
+                    onClick={handleAddBookmark}
+                    className="w-5 h-5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                    title="Ajouter un repère"
+                >
+                    <BookmarkPlus size={10} strokeWidth={1.2} />
+                </button>
+                <button
+                    onClick={() => setShowBookmarks(!showBookmarks)}
+                    disabled={bookmarks.length === 0}
+                    className={`flex items-center gap-1 px-1.5 h-5 rounded-full hover:bg-white/10 hover:text-white transition-colors disabled:opacity-40 ${showBookmarks && bookmarks.length > 0 ? 'text-white' : ''}`}
+                    title="Repères"
+                >
+                    <BookmarkIcon size={10} strokeWidth={1.2} />
+                    <span className="tabular-nums">{bookmarks.length}</span>
+                </button>
+            </div>
         </div>
 
+        {/* Bookmark List */}
+        {showBookmarks && bookmarks.length > 0 && media?.type === 'audio' && (
+            <div className="flex flex-col gap-1 -mt-1 mb-3 md:mb-4 px-1 max-h-24 overflow-y-auto">
+                {bookmarks.map(bookmark => (
+                    <div key={bookmark.id} className="flex items-center gap-2 text-[10px] text-white/60">
+                        <button
+                            onClick={() => seekTo(bookmark.time)}
+                            className="w-10 text-left tabular-nums tracking-wider hover:text-white transition-colors"
+                            title="Aller au repère"
+                        >
+                            {formatTime(bookmark.time)}
+                        </button>
+                        {/* Saved on blur rather than on every keystroke */}
+                        <input
+                            defaultValue={bookmark.label}
+                            onBlur={(e) => {
+                                const label = e.target.value.trim();
+                                if (!label) e.target.value = bookmark.label;
+                                else if (label !== bookmark.label && onBookmarksChange) onBookmarksChange(renameBookmark(bookmarks, bookmark.id, label));
+                            }}
+                            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                            className="flex-1 min-w-0 bg-transparent border-b border-white/10 focus:border-white/40 focus:outline-none text-white/80 py-0.5"
+                        />
+                        <button
+                            onClick={() => onBookmarksChange && onBookmarksChange(removeBookmark(bookmarks, bookmark.id))}
+                            className="w-4 h-4 flex items-center justify-center rounded-full text-white/40 hover:text-white hover:bg-red-500/80 transition-all"
+                            title="Supprimer le repère"
+                        >
+                            <X size={10} />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        )}
+
         {/* Control Panel */}
         <div className="flex items-center justify-between px-2 md:px-4">
             
             <div className="flex flex-col gap-[5px] w-6 md:w-10 opacity-70">
-                {[...Array(5)].map((_, i) => (
-                    <div key={`l-${i}`} className="w-full h-[1.5px] bg-white/60 rounded-full shadow-sm"></div>
+                {[...Array(GRILLE_LINES)].map((_, i) => (
+                    <div 
+                        key={`l-${i}`} 
+                        ref={(el) => { grilleRefs.current[i] = el }}
+                        className="w-full h-[1.5px] bg-white/60 rounded-full shadow-sm origin-right transition-[transform,opacity] duration-75"
+                    ></div>
                 ))}
             </div>
 
-            <div className="flex items-center gap-4 md:gap-8">
+            <div className="flex items-center gap-2 md:gap-4">
                 <button 
                     onClick={() => setShowLyricsModal(true)}
                     className="w-8 h-8 md:w-10 md:h-10 border border-white/40 rounded-full flex items-center justify-center transition-all hover:bg-white/10 hover:text-white hover:border-white/80 duration-300 group"
@@ -450,6 +1011,15 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
                     <FileText size={14} className="md:w-[16px] md:h-[16px]" strokeWidth={1.2} />
                 </button>
 
+                <button 
+                    onClick={handlePrevious}
+                    disabled={!media}
+                    className={`w-8 h-8 md:w-10 md:h-10 rounded-full flex items-center justify-center transition-all hover:bg-white/10 hover:text-white duration-300 ${!media ? 'opacity-30 cursor-not-allowed' : ''}`}
+                    title="Previous"
+                >
+                    <SkipBack size={14} className="md:w-[16px] md:h-[16px]" strokeWidth={1.2} />
+                </button>
+
                 <button 
                     onClick={togglePlay}
                     disabled={media?.type !== 'audio' || isStarting}
@@ -463,9 +1033,18 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
                         <Play size={24} className="md:w-[28px] md:h-[28px] ml-1" strokeWidth={0.8} />
                     )}
                 </button>
+
+                <button 
+                    onClick={onNext}
+                    disabled={!onNext}
+                    className={`w-8 h-8 md:w-10 md:h-10 rounded-full flex items-center justify-center transition-all hover:bg-white/10 hover:text-white duration-300 ${!onNext ? 'opacity-30 cursor-not-allowed' : ''}`}
+                    title="Next"
+                >
+                    <SkipForward size={14} className="md:w-[16px] md:h-[16px]" strokeWidth={1.2} />
+                </button>
                 
-                 <label className="cursor-pointer flex flex-col items-center group" title="Upload Music">
-                    <input type="file" className="hidden" accept="audio/*,video/*" multiple onChange={handleFileChange} />
+                 <label className="cursor-pointer flex flex-col items-center group" title="Upload Music (with matching .lrc / .srt files)">
+                    <input type="file" className="hidden" accept={`audio/*,video/*,${LYRICS_ACCEPT}`} multiple onChange={handleFileChange} />
                     <div className={`w-8 h-8 md:w-10 md:h-10 border border-white/40 rounded-full flex items-center justify-center transition-all hover:bg-white/10 hover:text-white hover:border-white/80 duration-300 ${!media ? 'animate-pulse' : ''}`}>
                         <Upload size={14} className="md:w-[16px] md:h-[16px]" strokeWidth={1.2} />
                     </div>
@@ -473,11 +1052,74 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
             </div>
 
             <div className="flex flex-col gap-[5px] w-6 md:w-10 opacity-70">
-                {[...Array(5)].map((_, i) => (
-                    <div key={`r-${i}`} className="w-full h-[1.5px] bg-white/60 rounded-full shadow-sm"></div>
+                {[...Array(GRILLE_LINES)].map((_, i) => (
+                    <div 
+                        key={`r-${i}`} 
+                        ref={(el) => { grilleRefs.current[GRILLE_LINES + i] = el }}
+                        className="w-full h-[1.5px] bg-white/60 rounded-full shadow-sm origin-left transition-[transform,opacity] duration-75"
+                    ></div>
                 ))}
             </div>
         </div>
+
+        {/* Volume Strip: master knob + per-track gain trim */}
+        <div className="flex items-center justify-between mt-4 md:mt-6 px-2 md:px-4 relative z-20">
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={onToggleMute}
+                    className={`w-6 h-6 rounded-full flex items-center justify-center transition-all duration-300 hover:bg-white/10 ${muted ? 'text-white/40' : 'text-white/80'}`}
+                    title={muted ? "Unmute" : "Mute"}
+                >
+                    {muted || volume === 0 ? <VolumeX size={12} strokeWidth={1.2} /> : <Volume2 size={12} strokeWidth={1.2} />}
+                </button>
+                <VolumeKnob
+                    volume={volume}
+                    muted={muted}
+                    onChange={(v) => onVolumeChange && onVolumeChange(v)}
+                    onToggleMute={() => onToggleMute && onToggleMute()}
+                    size={32}
+                />
+                <span className="w-8 text-[9px] tracking-[0.2em] text-white/60 tabular-nums">
+                    {muted ? 'MUET' : Math.round(volume * 100)}
+                </span>
+            </div>
+
+            {onShowEqualizer && (
+                <button
+                    onClick={onShowEqualizer}
+                    className="flex items-center gap-1 px-2 h-6 rounded-full text-[9px] tracking-[0.2em] text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+                    title="Égaliseur"
+                >
+                    <SlidersHorizontal size={10} strokeWidth={1.2} />
+                    EQ
+                </button>
+            )}
+
+            <div className={`flex items-center gap-1 text-[9px] tracking-[0.2em] text-white/60 ${media ? '' : 'opacity-40 pointer-events-none'}`}>
+                <span className="mr-1">GAIN</span>
+                <button
+                    onClick={() => changeGain(-GAIN_STEP)}
+                    className="w-5 h-5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                    title="Lower track gain"
+                >
+                    <Minus size={10} strokeWidth={1.2} />
+                </button>
+                <span
+                    className="w-14 text-center tabular-nums cursor-default"
+                    onDoubleClick={() => onGainChange && onGainChange(0)}
+                    title="Per-track gain trim · double-click to reset"
+                >
+                    {gainDb > 0 ? '+' : ''}{gainDb.toFixed(1)} dB
+                </span>
+                <button
+                    onClick={() => changeGain(GAIN_STEP)}
+                    className="w-5 h-5 rounded-full flex items-center justify-center hover:bg-white/10 hover:text-white transition-colors"
+                    title="Raise track gain"
+                >
+                    <Plus size={10} strokeWidth={1.2} />
+                </button>
+            </div>
+        </div>
       </div>
 
       {/* Lyrics Modal - Same as before */}
@@ -485,40 +1127,161 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
         <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
             <div className="w-full max-w-md bg-zinc-900/90 backdrop-blur-xl border border-white/20 rounded-3xl p-6 shadow-2xl relative">
                 <button 
-                    onClick={() => setShowLyricsModal(false)}
+                    onClick={closeLyricsModal}
                     className="absolute top-4 right-4 text-white/50 hover:text-white transition-colors"
                 >
                     <X size={20} />
                 </button>
+
+                {/* Tap-to-sync mode */}
+                {media?.type === 'audio' && (
+                    <button
+                        onClick={() => { setIsSyncingLyrics(!isSyncingLyrics); setLyricsWarnings([]); }}
+                        className={`absolute top-4 right-12 flex items-center gap-1 text-xs tracking-wider transition-colors ${
+                            isSyncingLyrics ? 'text-emerald-300' : 'text-white/50 hover:text-white'
+                        }`}
+                        title="Tap-to-sync"
+                    >
+                        <Timer size={16} />
+                        Sync
+                    </button>
+                )}
                 
                 <h3 className="text-xl text-white font-light mb-4 tracking-wider flex items-center gap-2" style={{ fontFamily: "'Londrina Sketch', cursive" }}>
                     <FileText size={24} />
                     Paroles / Lyrics
                 </h3>
-                
+
+                {/* Timing offset: this track, and every track */}
+                {(onLyricsOffsetChange || onGlobalLyricsOffsetChange) && (
+                    <div className="flex items-center justify-between gap-3 mb-4 text-[11px] tracking-wider text-white/50">
+                        {([
+                            { label: 'Piste', value: lyricsOffset, onChange: media ? onLyricsOffsetChange : undefined },
+                            { label: 'Global', value: globalLyricsOffset, onChange: onGlobalLyricsOffsetChange },
+                        ]).map(({ label, value, onChange }) => (
+                            <div key={label} className="flex items-center gap-1.5">
+                                <span>{label}</span>
+                                <button
+                                    onClick={() => onChange?.(stepLyricsOffset(value, -LYRICS_OFFSET_STEP))}
+                                    disabled={!onChange}
+                                    className="w-5 h-5 flex items-center justify-center rounded-full border border-white/20 hover:border-white/60 hover:text-white transition-colors disabled:opacity-30"
+                                    title="Paroles plus tard (-0.1 s)"
+                                >
+                                    <Minus size={10} />
+                                </button>
+                                <span
+                                    className={`w-12 text-center font-mono tabular-nums cursor-pointer ${value ? 'text-white' : ''}`}
+                                    onDoubleClick={() => onChange?.(0)}
+                                    title="Double-clic pour remettre à zéro"
+                                >
+                                    {value > 0 ? '+' : ''}{value.toFixed(1)} s
+                                </span>
+                                <button
+                                    onClick={() => onChange?.(stepLyricsOffset(value, LYRICS_OFFSET_STEP))}
+                                    disabled={!onChange}
+                                    className="w-5 h-5 flex items-center justify-center rounded-full border border-white/20 hover:border-white/60 hover:text-white transition-colors disabled:opacity-30"
+                                    title="Paroles plus tôt (+0.1 s)"
+                                >
+                                    <Plus size={10} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Translation: attach / remove, and which side the immersive view shows */}
+                {!isSyncingLyrics && (
+                    <div className="flex items-center justify-between gap-3 mb-4 text-[11px] tracking-wider text-white/50">
+                        <div className="flex items-center gap-1.5">
+                            <label className="cursor-pointer flex items-center gap-1.5 hover:text-white transition-colors" title="Attach a translation (LRC, SRT, WebVTT, TTML or plain text)">
+                                <input type="file" className="hidden" accept={LYRICS_ACCEPT} onChange={handleTranslationUpload} />
+                                <Languages size={14} />
+                                Traduction
+                            </label>
+                            {hasTranslation(media?.lyrics || []) && (
+                                <button
+                                    onClick={() => applyTranslatedLyrics(removeTranslation(currentLyrics()))}
+                                    className="w-5 h-5 flex items-center justify-center rounded-full hover:text-white transition-colors"
+                                    title="Retirer la traduction"
+                                >
+                                    <X size={10} />
+                                </button>
+                            )}
+                        </div>
+                        {onLyricsLanguageChange && (
+                            <div className="flex items-center rounded-full border border-white/20 overflow-hidden">
+                                {LYRICS_LANGUAGES.map(({ language, label }) => (
+                                    <button
+                                        key={language}
+                                        onClick={() => onLyricsLanguageChange(language)}
+                                        className={`px-2 py-0.5 transition-colors ${
+                                            lyricsLanguage === language ? 'bg-white/20 text-white' : 'hover:text-white'
+                                        }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {isSyncingLyrics ? (
+                    <LyricsSyncEditor
+                        text={pastedLyrics}
+                        isPlaying={isPlaying}
+                        getCurrentTime={() => audioRef.current?.currentTime || 0}
+                        onSeek={seekTo}
+                        onTogglePlay={togglePlay}
+                        onApply={handleSyncedLyrics}
+                        onCancel={() => setIsSyncingLyrics(false)}
+                    />
+                ) : (<>
                 <textarea
                     value={pastedLyrics}
-                    onChange={(e) => setPastedLyrics(e.target.value)}
-                    placeholder="[00:12.00] Paste your LRC text here..."
-                    className="w-full h-64 bg-black/40 border border-white/10 rounded-xl p-4 text-white/90 font-mono text-xs md:text-sm resize-none focus:outline-none focus:border-white/30 mb-6 placeholder:text-white/20 shadow-inner"
+                    onChange={(e) => { setPastedLyrics(e.target.value); setLyricsWarnings([]); }}
+                    placeholder="[00:12.00] Paste LRC, SRT, WebVTT or TTML here..."
+                    className={`w-full h-64 bg-black/40 border border-white/10 rounded-xl p-4 text-white/90 font-mono text-xs md:text-sm resize-none focus:outline-none focus:border-white/30 placeholder:text-white/20 shadow-inner ${lyricsWarnings.length ? 'mb-3' : 'mb-6'}`}
                     spellCheck={false}
                 />
+
+                {lyricsWarnings.length > 0 && (
+                    <ul className="max-h-24 overflow-y-auto mb-4 space-y-1 text-[11px] font-mono text-amber-200/80">
+                        {lyricsWarnings.map((warning, i) => (
+                            <li key={i}>
+                                {warning.line > 0 && <span className="text-amber-200/50">Ligne {warning.line} · </span>}
+                                {warning.message}
+                            </li>
+                        ))}
+                    </ul>
+                )}
                 
                 <div className="flex gap-3">
                     <label className="flex-1 cursor-pointer flex items-center justify-center gap-2 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl transition-all text-white/80 hover:text-white text-sm font-light">
-                        <input type="file" className="hidden" accept=".lrc,.txt" onChange={handleLyricsUpload} />
+                        <input type="file" className="hidden" accept={LYRICS_ACCEPT} onChange={handleLyricsUpload} />
                         <FileUp size={16} />
                         Import
                     </label>
 
-                    <button 
-                        onClick={handleDownloadLyrics}
-                        className="flex-1 flex items-center justify-center gap-2 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl transition-all text-white/80 hover:text-white text-sm font-light"
-                        title="Download as .lrc"
-                    >
-                        <Download size={16} />
-                        Download
-                    </button>
+                    <div className="flex-1 flex items-stretch bg-white/5 border border-white/10 rounded-xl overflow-hidden">
+                        <button 
+                            onClick={handleDownloadLyrics}
+                            className="flex-1 flex items-center justify-center gap-2 py-3 hover:bg-white/10 transition-all text-white/80 hover:text-white text-sm font-light"
+                            title={`Download as .${LYRICS_FORMATS.find(f => f.format === exportFormat)?.extension}`}
+                        >
+                            <Download size={16} />
+                        </button>
+                        <select
+                            value={exportFormat}
+                            onChange={(e) => setExportFormat(e.target.value as LyricsFormat)}
+                            className="bg-transparent border-l border-white/10 px-2 text-white/70 text-xs focus:outline-none cursor-pointer"
+                            title="Export format"
+                        >
+                            {LYRICS_FORMATS.map(f => (
+                                <option key={f.format} value={f.format} className="bg-zinc-900">{f.label}</option>
+                            ))}
+                        </select>
+                    </div>
                     
                     <button 
                         onClick={handleSavePastedLyrics}
@@ -528,6 +1291,7 @@ const DoodleRadio: React.FC<DoodleRadioProps> = ({
                         Apply
                     </button>
                 </div>
+                </>)}
             </div>
         </div>,
         document.body
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { SlidersHorizontal, X, Save, Trash2, Radio } from 'lucide-react';
+import { EQ_FREQUENCIES, EQ_RANGE, FLAT_EQ, BUILT_IN_EQ_PRESETS, EqPreset, isSameEq } from '../services/equalizer';
+
+interface EqualizerPanelProps {
+  gains: number[];
+  onChange: (gains: number[]) => void;
+  presets: EqPreset[]; // The user's own; the built-in ones are always offered
+  onSavePreset: (preset: EqPreset) => void;
+  onDeletePreset: (name: string) => void;
+  isVintageRadio: boolean;
+  onToggleVintageRadio: () => void;
+  wowFlutter: boolean;
+  onToggleWowFlutter: () => void;
+  tapeHiss: boolean;
+  onToggleTapeHiss: () => void;
+  onClose: () => void;
+}
+
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${hz / 1000}k` : `${hz}`);
+
+const EqualizerPanel: React.FC<EqualizerPanelProps> = ({
+  gains,
+  onChange,
+  presets,
+  onSavePreset,
+  onDeletePreset,
+  isVintageRadio,
+  onToggleVintageRadio,
+  wowFlutter,
+  onToggleWowFlutter,
+  tapeHiss,
+  onToggleTapeHiss,
+  onClose
+}) => {
+  const [presetName, setPresetName] = useState('');
+
+  const allPresets = [...BUILT_IN_EQ_PRESETS, ...presets];
+  const activePreset = allPresets.find(preset => isSameEq(preset.gains, gains));
+  const isCustomActive = !!activePreset && presets.includes(activePreset);
+
+  const setBand = (index: number, gain: number) => {
+    onChange(gains.map((g, i) => (i === index ? gain : g)));
+  };
+
+  // Built-in names stay reserved; saving under one of the user's own names overwrites it
+  const canSave = !!presetName.trim() && !BUILT_IN_EQ_PRESETS.some(p => p.name === presetName.trim());
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!canSave) return;
+    onSavePreset({ name, gains });
+    setPresetName('');
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+        <div className="w-full max-w-md bg-zinc-900/90 backdrop-blur-xl border border-white/20 rounded-3xl p-6 shadow-2xl relative" onClick={(e) => e.stopPropagation()}>
+            <button
+                onClick={onClose}
+                className="absolute top-4 right-4 text-white/50 hover:text-white transition-colors"
+            >
+                <X size={20} />
+            </button>
+
+            <h3 className="text-xl text-white font-light mb-4 tracking-wider flex items-center gap-2" style={{ fontFamily: "'Londrina Sketch', cursive" }}>
+                <SlidersHorizontal size={24} />
+                Égaliseur / EQ
+            </h3>
+
+            {/* Presets */}
+            <div className="flex items-center gap-2 mb-4">
+                <select
+                    value={activePreset?.name ?? ''}
+                    onChange={(e) => {
+                        const preset = allPresets.find(p => p.name === e.target.value);
+                        if (preset) onChange(preset.gains);
+                    }}
+                    className="flex-1 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-white/80 text-xs focus:outline-none focus:border-white/30 cursor-pointer"
+                >
+                    {!activePreset && <option value="" className="bg-zinc-900">Personnalisé</option>}
+                    {allPresets.map(preset => (
+                        <option key={preset.name} value={preset.name} className="bg-zinc-900">{preset.name}</option>
+                    ))}
+                </select>
+                {isCustomActive && (
+                    <button
+                        onClick={() => onDeletePreset(activePreset!.name)}
+                        className="w-8 h-8 flex items-center justify-center rounded-full text-white/50 hover:text-white hover:bg-red-500/80 transition-all"
+                        title="Supprimer ce préréglage"
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                )}
+            </div>
+
+            {/* Bands */}
+            <div className={`flex justify-between items-end h-44 px-1 mb-2 bg-black/40 border border-white/10 rounded-xl py-3 shadow-inner transition-opacity ${isVintageRadio ? 'opacity-60' : ''}`}>
+                {EQ_FREQUENCIES.map((frequency, i) => (
+                    <div key={frequency} className="flex flex-col items-center gap-1 h-full">
+                        <span className="text-[9px] text-white/50 tabular-nums h-3">
+                            {gains[i] > 0 ? '+' : ''}{gains[i] || 0}
+                        </span>
+                        <input
+                            type="range"
+                            min={-EQ_RANGE}
+                            max={EQ_RANGE}
+                            step={1}
+                            value={gains[i] || 0}
+                            onChange={(e) => setBand(i, Number(e.target.value))}
+                            onDoubleClick={() => setBand(i, 0)}
+                            className="flex-1 w-4 accent-white cursor-pointer"
+                            style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                            title={`${formatFrequency(frequency)}Hz · double-clic pour remettre à zéro`}
+                        />
+                        <span className="text-[9px] text-white/50 tabular-nums">{formatFrequency(frequency)}</span>
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between text-[10px] text-white/30 tracking-wider mb-6 px-1">
+                <span>±{EQ_RANGE} dB</span>
+                <button onClick={() => onChange(FLAT_EQ)} className="hover:text-white transition-colors">Remettre à plat</button>
+            </div>
+
+            <div className="flex gap-3">
+                <input
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                    placeholder="Nom du préréglage"
+                    className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-3 text-white/90 text-sm focus:outline-none focus:border-white/30 placeholder:text-white/20"
+                />
+                <button
+                    onClick={handleSave}
+                    disabled={!canSave}
+                    className="flex items-center justify-center gap-2 px-4 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl transition-all text-white/80 hover:text-white text-sm font-light disabled:opacity-30"
+                >
+                    <Save size={16} />
+                    Save
+                </button>
+                <button
+                    onClick={onToggleVintageRadio}
+                    className={`flex items-center justify-center gap-2 px-4 py-3 rounded-xl transition-all text-sm font-light border ${
+                        isVintageRadio
+                            ? 'bg-amber-200 text-black border-amber-200 shadow-[0_0_15px_rgba(253,230,138,0.3)]'
+                            : 'bg-white/5 hover:bg-white/10 border-white/10 text-white/80 hover:text-white'
+                    }`}
+                    title="Radio d'antan : bande étroite, saturation légère, mono"
+                >
+                    <Radio size={16} />
+                </button>
+            </div>
+
+            {/* Cassette */}
+            <div className="flex items-center gap-2 mt-4">
+                <span className="text-[10px] text-white/30 tracking-wider mr-auto">CASSETTE</span>
+                {[
+                    { label: 'Pleurage', title: 'Wow & flutter : légères variations de vitesse de la bande', active: wowFlutter, onToggle: onToggleWowFlutter },
+                    { label: 'Souffle', title: 'Souffle de bande, seulement quand elle défile', active: tapeHiss, onToggle: onToggleTapeHiss },
+                ].map(({ label, title, active, onToggle }) => (
+                    <button
+                        key={label}
+                        onClick={onToggle}
+                        className={`px-3 py-1.5 rounded-full text-xs transition-all border ${
+                            active
+                                ? 'bg-white text-black border-white'
+                                : 'bg-white/5 hover:bg-white/10 border-white/10 text-white/60 hover:text-white'
+                        }`}
+                        title={title}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    </div>,
+    document.body
+  );
+};
+
+export default EqualizerPanel;
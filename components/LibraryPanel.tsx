@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Library, X, Trash2, Music, Film, HardDrive, ListPlus } from 'lucide-react';
+import { StoredTrack } from '../types';
+import { getAllTracks, getStorageUsage, formatBytes, StorageUsage } from '../services/mediaLibrary';
+import { getTrackTitle } from '../utils/trackTitle';
+import { formatTime } from '../utils/time';
+
+interface LibraryPanelProps {
+  currentId?: string;
+  playlistIds: string[];
+  onAdd: (id: string) => Promise<void>;
+  onRemove: (id: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const LibraryPanel: React.FC<LibraryPanelProps> = ({ currentId, playlistIds, onAdd, onRemove, onClose }) => {
+  const [tracks, setTracks] = useState<StoredTrack[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = async () => {
+    try {
+      const [all, estimate] = await Promise.all([getAllTracks(), getStorageUsage()]);
+      setTracks(all.sort((a, b) => a.addedAt - b.addedAt));
+      setUsage(estimate);
+    } catch (e) {
+      console.warn("Could not read media library:", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleRemove = async (id: string) => {
+    await onRemove(id);
+    refresh();
+  };
+
+  const libraryBytes = tracks.reduce((sum, t) => sum + t.size + (t.cover?.size || 0), 0);
+  const usagePercent = usage && usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+        <div className="w-full max-w-md bg-zinc-900/90 backdrop-blur-xl border border-white/20 rounded-3xl p-6 shadow-2xl relative">
+            <button
+                onClick={onClose}
+                className="absolute top-4 right-4 text-white/50 hover:text-white transition-colors"
+            >
+                <X size={20} />
+            </button>
+
+            <h3 className="text-xl text-white font-light mb-4 tracking-wider flex items-center gap-2" style={{ fontFamily: "'Londrina Sketch', cursive" }}>
+                <Library size={24} />
+                Bibliothèque / Library
+            </h3>
+
+            {/* Track List */}
+            <div className="h-64 overflow-y-auto bg-black/40 border border-white/10 rounded-xl p-2 mb-6 shadow-inner">
+                {isLoading ? (
+                    <div className="h-full flex items-center justify-center text-white/30 text-xs tracking-widest animate-pulse">
+                        Chargement...
+                    </div>
+                ) : tracks.length === 0 ? (
+                    <div className="h-full flex items-center justify-center text-white/30 text-xs tracking-widest">
+                        La bibliothèque est vide
+                    </div>
+                ) : (
+                    tracks.map(track => (
+                        <div
+                            key={track.id}
+                            className={`flex items-center gap-3 px-3 py-2 rounded-lg group transition-colors ${
+                                track.id === currentId ? 'bg-white/10' : 'hover:bg-white/5'
+                            }`}
+                        >
+                            {track.type === 'video'
+                                ? <Film size={14} className="shrink-0 text-white/50" />
+                                : <Music size={14} className="shrink-0 text-white/50" />}
+                            <div className="flex-1 min-w-0">
+                                <div className="text-white/90 text-sm font-light truncate">{getTrackTitle(track)}</div>
+                                <div className="text-white/40 text-[10px] tracking-wider">
+                                    {track.album ? `${track.album} · ` : ''}
+                                    {track.duration ? `${formatTime(track.duration)} · ` : ''}
+                                    {formatBytes(track.size)}
+                                    {track.cover ? ' · cover' : ''}
+                                    {track.lyrics?.length ? ' · lyrics' : ''}
+                                </div>
+                            </div>
+                            {!playlistIds.includes(track.id) && (
+                                <button
+                                    onClick={() => onAdd(track.id)}
+                                    className="shrink-0 w-7 h-7 flex items-center justify-center rounded-full text-white/40 hover:text-white hover:bg-white/20 transition-all opacity-60 group-hover:opacity-100"
+                                    title="Add to playlist"
+                                >
+                                    <ListPlus size={14} />
+                                </button>
+                            )}
+                            <button
+                                onClick={() => handleRemove(track.id)}
+                                className="shrink-0 w-7 h-7 flex items-center justify-center rounded-full text-white/40 hover:text-white hover:bg-red-500/80 transition-all opacity-60 group-hover:opacity-100"
+                                title="Remove from library"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))
+                )}
+            </div>
+
+            {/* Storage Usage */}
+            <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between text-[10px] tracking-[0.2em] uppercase text-white/60">
+                    <span className="flex items-center gap-2">
+                        <HardDrive size={12} />
+                        {tracks.length} {tracks.length === 1 ? 'track' : 'tracks'} · {formatBytes(libraryBytes)}
+                    </span>
+                    {usage && (
+                        <span>{formatBytes(usage.usage)} / {formatBytes(usage.quota)}</span>
+                    )}
+                </div>
+                <div className="w-full h-[1px] bg-white/20 relative">
+                    <div
+                        className="h-full bg-white/90 shadow-[0_0_10px_rgba(255,255,255,0.3)] transition-all duration-500"
+                        style={{ width: `${usagePercent}%` }}
+                    ></div>
+                </div>
+            </div>
+        </div>
+    </div>,
+    document.body
+  );
+};
+
+export default LibraryPanel;
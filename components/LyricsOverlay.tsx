@@ -1,27 +1,90 @@
-import React, { useEffect, useRef, useMemo, useState } from 'react';
-import { LyricLine } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { LyricLine, LyricSegment, LyricsLanguage } from '../types';
+import { usePlaybackTime } from '../hooks/usePlaybackTime';
+import { findActiveLineIndex } from '../utils/lyrics';
 
 interface LyricsOverlayProps {
   lyrics: LyricLine[];
-  currentTime: number;
+  offset?: number; // Seconds; positive shows lyrics earlier, like LRC's [offset:]
   isVisible: boolean;
+  language?: LyricsLanguage; // Bilingual lyrics: which side to show; lines without a translation always show the original
+  onSeek?: (time: number) => void; // Called with a line's time when it is clicked / tapped
 }
 
-const LyricsOverlay: React.FC<LyricsOverlayProps> = ({ lyrics, currentTime, isVisible }) => {
+// After browsing with the wheel / a swipe, the view returns to the active line after this long
+const BROWSE_SNAP_MS = 4000;
+// Pointer travel before a press counts as a swipe rather than a tap
+const SWIPE_THRESHOLD = 8;
+
+// A last word without an explicit end stops filling after this long, rather than at the next line
+const MAX_LAST_WORD_SECONDS = 2;
+
+// How far (0-1) the sweep has crossed a word of the active line
+const segmentProgress = (segments: LyricSegment[], index: number, currentTime: number, nextLineTime?: number) => {
+  const segment = segments[index];
+  const next = segments[index + 1];
+  let end = segment.end ?? next?.time;
+  if (end === undefined) {
+    end = segment.time + MAX_LAST_WORD_SECONDS;
+    if (nextLineTime !== undefined) end = Math.min(end, nextLineTime);
+  }
+  if (currentTime <= segment.time) return 0;
+  if (currentTime >= end || end <= segment.time) return 1;
+  return (currentTime - segment.time) / (end - segment.time);
+};
+
+interface KaraokeTextProps {
+  segments: LyricSegment[];
+  offset: number;
+  nextLineTime?: number;
+}
+
+// Karaoke sweep for the active line: each word is a bright/dim gradient clipped to the text,
+// slid by its progress. This is the only part that re-renders every frame.
+const KaraokeText: React.FC<KaraokeTextProps> = ({ segments, offset, nextLineTime }) => {
+  const currentTime = usePlaybackTime() + offset;
+  return (
+    <>
+      {segments.map((segment, i) => {
+        const progress = segmentProgress(segments, i, currentTime, nextLineTime);
+        return (
+          <span
+            key={i}
+            className="whitespace-pre-wrap"
+            style={{
+              backgroundImage: 'linear-gradient(to right, #fff 50%, rgba(255,255,255,0.35) 50%)',
+              backgroundSize: '200% 100%',
+              backgroundPosition: `${(1 - progress) * 100}% 0`,
+              WebkitBackgroundClip: 'text',
+              backgroundClip: 'text',
+              color: 'transparent',
+            }}
+          >
+            {segment.text}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+const LyricsOverlay: React.FC<LyricsOverlayProps> = ({ lyrics, offset = 0, isVisible, language = 'both', onSeek }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const lineRefs = useRef<(HTMLDivElement | null)[]>([]);
   const [translateY, setTranslateY] = useState(0);
+  // Extra scroll from browsing, on top of the active-line position
+  const [browseOffset, setBrowseOffset] = useState(0);
+  const snapTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const swipeRef = useRef<{ pointerId: number; startY: number; startOffset: number; moved: boolean } | null>(null);
+  // Swallows the click that ends a swipe
+  const suppressClickRef = useRef(false);
 
-  // Find the current active line index
-  const activeIndex = useMemo(() => {
-    if (!lyrics.length) return -1;
-    // Find the last line whose time is less than or equal to current time
-    const index = lyrics.findIndex((line, i) => {
-      const nextLine = lyrics[i + 1];
-      return line.time <= currentTime && (!nextLine || nextLine.time > currentTime);
-    });
-    return index === -1 ? 0 : index;
-  }, [lyrics, currentTime]);
+  // Active line, in "lyrics time" (the user's offset shifts every line alike). Only a change of
+  // line re-renders the overlay; before the first line the first one is shown.
+  const activeIndex = usePlaybackTime(
+    time => (lyrics.length ? Math.max(0, findActiveLineIndex(lyrics, time + offset)) : -1),
+    isVisible
+  );
 
   // Silky Smooth Scrolling Logic
   useEffect(() => {
@@ -39,7 +102,67 @@ const LyricsOverlay: React.FC<LyricsOverlayProps> = ({ lyrics, currentTime, isVi
             setTranslateY(targetOffset);
         }
     }
-  }, [activeIndex, isVisible, lyrics]); // Recalculate when active index changes
+  }, [activeIndex, isVisible, lyrics, language]); // Recalculate when active index or line heights change
+
+  useEffect(() => () => {
+    if (snapTimeoutRef.current) clearTimeout(snapTimeoutRef.current);
+  }, []);
+
+  // Keep browsing between the first and the last line
+  const clampBrowse = (value: number) => {
+    const lines = lineRefs.current.filter((el): el is HTMLDivElement => !!el);
+    const container = containerRef.current;
+    if (!lines.length || !container) return value;
+    const center = container.clientHeight / 2;
+    const first = lines[0].offsetTop + lines[0].clientHeight / 2;
+    const last = lines[lines.length - 1].offsetTop + lines[lines.length - 1].clientHeight / 2;
+    return Math.min(center - first - translateY, Math.max(center - last - translateY, value));
+  };
+
+  const browseTo = (value: number) => {
+    setBrowseOffset(clampBrowse(value));
+    if (snapTimeoutRef.current) clearTimeout(snapTimeoutRef.current);
+    snapTimeoutRef.current = setTimeout(() => setBrowseOffset(0), BROWSE_SNAP_MS);
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    // Line mode (Firefox) reports rows rather than pixels
+    const delta = e.deltaMode === 1 ? e.deltaY * 40 : e.deltaY;
+    browseTo(browseOffset - delta);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse') return; // Mice browse with the wheel
+    swipeRef.current = { pointerId: e.pointerId, startY: e.clientY, startOffset: browseOffset, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const swipe = swipeRef.current;
+    if (!swipe || swipe.pointerId !== e.pointerId) return;
+    const dy = e.clientY - swipe.startY;
+    if (!swipe.moved && Math.abs(dy) < SWIPE_THRESHOLD) return;
+    swipe.moved = true;
+    browseTo(swipe.startOffset + dy);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const swipe = swipeRef.current;
+    if (!swipe || swipe.pointerId !== e.pointerId) return;
+    suppressClickRef.current = swipe.moved;
+    swipeRef.current = null;
+  };
+
+  const handleLineClick = (time: number) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    if (snapTimeoutRef.current) clearTimeout(snapTimeoutRef.current);
+    setBrowseOffset(0);
+    onSeek?.(time);
+  };
+
+  const isBrowsing = browseOffset !== 0;
 
   if (!isVisible) return null;
 
@@ -51,7 +174,12 @@ const LyricsOverlay: React.FC<LyricsOverlayProps> = ({ lyrics, currentTime, isVi
       {lyrics.length > 0 ? (
         <div 
             ref={containerRef}
-            className="w-full max-w-3xl h-[70vh] overflow-hidden flex flex-col items-center relative mask-image-gradient"
+            onWheel={onSeek ? handleWheel : undefined}
+            onPointerDown={onSeek ? handlePointerDown : undefined}
+            onPointerMove={onSeek ? handlePointerMove : undefined}
+            onPointerUp={onSeek ? handlePointerUp : undefined}
+            onPointerCancel={() => { swipeRef.current = null; }}
+            className={`w-full max-w-3xl h-[70vh] overflow-hidden flex flex-col items-center relative mask-image-gradient ${onSeek ? 'pointer-events-auto touch-none' : ''}`}
             style={{
                 maskImage: 'linear-gradient(to bottom, transparent 0%, black 15%, black 85%, transparent 100%)',
                 WebkitMaskImage: 'linear-gradient(to bottom, transparent 0%, black 15%, black 85%, transparent 100%)'
@@ -59,8 +187,8 @@ const LyricsOverlay: React.FC<LyricsOverlayProps> = ({ lyrics, currentTime, isVi
         >
           {/* Moving Track */}
           <div 
-            className="absolute w-full flex flex-col items-center gap-8 transition-transform duration-[800ms] ease-[cubic-bezier(0.23,1,0.32,1)] will-change-transform"
-            style={{ transform: `translateY(${translateY}px)` }}
+            className={`absolute w-full flex flex-col items-center gap-8 transition-transform ease-[cubic-bezier(0.23,1,0.32,1)] will-change-transform ${isBrowsing ? 'duration-150' : 'duration-[800ms]'}`}
+            style={{ transform: `translateY(${translateY + browseOffset}px)` }}
           >
             {lyrics.map((line, index) => {
               const isActive = index === activeIndex;
@@ -92,11 +220,23 @@ const LyricsOverlay: React.FC<LyricsOverlayProps> = ({ lyrics, currentTime, isVi
                   blur = 5;
               }
 
+              // While browsing, every line stays readable
+              if (isBrowsing && !isActive) {
+                  opacity = Math.max(opacity, 0.45);
+                  blur = 0;
+              }
+
+              const showTranslationOnly = language === 'translation' && !!line.translation;
+              const secondary = language === 'both' ? line.translation : undefined;
+
               return (
                 <div
                   key={index}
                   ref={(el) => { lineRefs.current[index] = el }}
-                  className="text-center px-4 transition-all duration-[800ms] ease-[cubic-bezier(0.23,1,0.32,1)] max-w-[90%]"
+                  onClick={onSeek ? () => handleLineClick(line.time) : undefined}
+                  role={onSeek ? 'button' : undefined}
+                  title={onSeek ? 'Aller à cette ligne' : undefined}
+                  className={`text-center px-4 transition-all duration-[800ms] ease-[cubic-bezier(0.23,1,0.32,1)] max-w-[90%] ${onSeek ? 'cursor-pointer hover:!opacity-100' : ''}`}
                   style={{
                       transform: `scale(${scale})`,
                       opacity: opacity,
@@ -112,8 +252,20 @@ const LyricsOverlay: React.FC<LyricsOverlayProps> = ({ lyrics, currentTime, isVi
                           textRendering: 'optimizeLegibility',
                       }}
                   >
-                    {line.text}
+                    {showTranslationOnly
+                      ? line.translation
+                      : isActive && line.segments
+                        ? <KaraokeText segments={line.segments} offset={offset} nextLineTime={lyrics[index + 1]?.time} />
+                        : line.text}
                   </p>
+                  {secondary && (
+                    <p
+                      className="mt-1 text-base md:text-xl tracking-wide text-white/70 drop-shadow-[0_2px_10px_rgba(0,0,0,0.3)]"
+                      style={{ fontFamily: "'Patrick Hand', cursive" }}
+                    >
+                      {secondary}
+                    </p>
+                  )}
                 </div>
               );
             })}
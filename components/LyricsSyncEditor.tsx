@@ -0,0 +1,263 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, Undo2, Minus, Plus, RotateCcw, Check, ArrowLeft } from 'lucide-react';
+import { LyricLine } from '../types';
+import { parseLyrics } from '../utils/lyricsFormats';
+import { formatLrcTimestamp } from '../utils/lyrics';
+import { usePlaybackTime } from '../hooks/usePlaybackTime';
+
+interface LyricsSyncEditorProps {
+  text: string; // Editor content: plain lines, or already timed lyrics to re-time
+  isPlaying: boolean;
+  getCurrentTime: () => number; // Exact position at the moment of the tap
+  onSeek: (time: number) => void;
+  onTogglePlay: () => void;
+  onApply: (lyrics: LyricLine[]) => void;
+  onCancel: () => void;
+}
+
+interface SyncLine {
+  text: string;
+  time: number | null;
+  source?: LyricLine; // Original timed line, so word timing and end can follow a re-stamp
+}
+
+interface Snapshot {
+  lines: SyncLine[];
+  cursor: number;
+}
+
+const NUDGE_SECONDS = 0.1;
+// Replaying a line starts a little before it so the tap can be judged again
+const REPLAY_PREROLL = 1;
+const MAX_UNDO = 100;
+
+const TIMESTAMP_PREFIX = /^(\s*\[[^\]]*\])+/;
+
+const toSyncLines = (text: string): SyncLine[] => {
+  const { lyrics } = parseLyrics(text);
+  if (lyrics.length > 0) return lyrics.map(line => ({ text: line.text, time: line.time, source: line }));
+  // Plain text: one line each, dropping any stray tags
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(TIMESTAMP_PREFIX, '').trim())
+    .filter(Boolean)
+    .map(line => ({ text: line, time: null }));
+};
+
+// Timed lines back to lyrics; segments and end move by however much the line moved, translations stay put
+const toLyrics = (lines: SyncLine[]): LyricLine[] =>
+  lines
+    .filter((line): line is SyncLine & { time: number } => line.time !== null)
+    .map(({ text, time, source }) => {
+      const lyric: LyricLine = { time, text };
+      if (source && source.text === text) {
+        const shift = time - source.time;
+        if (source.translation) lyric.translation = source.translation;
+        if (source.end !== undefined) lyric.end = Math.max(time, source.end + shift);
+        if (source.segments) {
+          lyric.segments = source.segments.map(s => ({
+            ...s,
+            time: s.time + shift,
+            ...(s.end !== undefined ? { end: s.end + shift } : {})
+          }));
+        }
+      }
+      return lyric;
+    })
+    .sort((a, b) => a.time - b.time);
+
+// Tap-to-sync: play the track and press Space as each line starts.
+// Keys are handled here (and not bubbled) so the global player shortcuts stay out of the way.
+const LyricsSyncEditor: React.FC<LyricsSyncEditorProps> = ({
+  text,
+  isPlaying,
+  getCurrentTime,
+  onSeek,
+  onTogglePlay,
+  onApply,
+  onCancel
+}) => {
+  const [lines, setLines] = useState<SyncLine[]>(() => toSyncLines(text));
+  // Next line to stamp; also the line that nudge / replay act on
+  const [cursor, setCursor] = useState(0);
+  const [history, setHistory] = useState<Snapshot[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const lineRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    containerRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    lineRefs.current[cursor]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [cursor]);
+
+  const commit = (nextLines: SyncLine[], nextCursor: number) => {
+    setHistory(prev => [...prev, { lines, cursor }].slice(-MAX_UNDO));
+    setLines(nextLines);
+    setCursor(nextCursor);
+  };
+
+  const stamp = () => {
+    if (cursor >= lines.length) return;
+    const time = Math.round(getCurrentTime() * 100) / 100;
+    commit(lines.map((line, i) => (i === cursor ? { ...line, time } : line)), Math.min(cursor + 1, lines.length));
+  };
+
+  const nudge = (index: number, delta: number) => {
+    const line = lines[index];
+    if (!line || line.time === null) return;
+    const time = Math.max(0, Math.round((line.time + delta) * 100) / 100);
+    commit(lines.map((l, i) => (i === index ? { ...l, time } : l)), cursor);
+  };
+
+  const replayFrom = (index: number) => {
+    // Untimed lines replay from the last stamped line before them
+    const timed = lines.slice(0, index + 1).reverse().find(line => line.time !== null);
+    onSeek(Math.max(0, (timed?.time ?? 0) - REPLAY_PREROLL));
+    setCursor(index);
+    if (!isPlaying) onTogglePlay();
+  };
+
+  const undo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+    setHistory(history.slice(0, -1));
+    setLines(previous.lines);
+    setCursor(previous.cursor);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = cursor < lines.length ? cursor : lines.length - 1;
+    let handled = true;
+    if (e.key === ' ' || e.key === 'Enter') stamp();
+    else if ((e.key === 'z' && (e.ctrlKey || e.metaKey)) || e.key === 'Backspace') undo();
+    else if (e.key === 'ArrowUp') setCursor(Math.max(0, cursor - 1));
+    else if (e.key === 'ArrowDown') setCursor(Math.min(lines.length - 1, cursor + 1));
+    else if (e.key === 'ArrowLeft') nudge(target, -NUDGE_SECONDS);
+    else if (e.key === 'ArrowRight') nudge(target, NUDGE_SECONDS);
+    else if (e.key === 'r') replayFrom(target);
+    else if (e.key === 'p') onTogglePlay();
+    else handled = false;
+
+    if (handled) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  };
+
+  const timedCount = lines.filter(line => line.time !== null).length;
+  // Line being sung right now, from the stamps made so far
+  const playingIndex = usePlaybackTime(
+    time => lines.reduce((found, line, i) => (line.time !== null && line.time <= time ? i : found), -1)
+  );
+
+  if (lines.length === 0) {
+    return (
+      <div className="h-64 mb-6 flex flex-col items-center justify-center gap-4 text-white/40 text-sm text-center">
+        <span>Paste the lyrics first, one line per line.</span>
+        <button onClick={onCancel} className="flex items-center gap-2 text-white/70 hover:text-white text-xs tracking-wider">
+          <ArrowLeft size={14} /> Texte
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className="h-64 overflow-y-auto bg-black/40 border border-white/10 rounded-xl p-2 mb-3 focus:outline-none focus:border-white/30 shadow-inner"
+      >
+        {lines.map((line, index) => {
+          const isCursor = index === cursor;
+          return (
+            <div
+              key={index}
+              ref={(el) => { lineRefs.current[index] = el; }}
+              onClick={() => setCursor(index)}
+              className={`group flex items-center gap-2 px-2 py-1 rounded-lg cursor-pointer text-xs md:text-sm ${
+                isCursor ? 'bg-white/15' : 'hover:bg-white/5'
+              }`}
+            >
+              <span className={`shrink-0 w-16 font-mono tabular-nums ${
+                line.time === null ? 'text-white/25' : index === playingIndex ? 'text-emerald-300' : 'text-white/60'
+              }`}>
+                {line.time === null ? '--:--.--' : formatLrcTimestamp(line.time)}
+              </span>
+              <span className={`flex-1 min-w-0 truncate ${isCursor ? 'text-white' : 'text-white/70'}`}>{line.text}</span>
+
+              <div className={`shrink-0 flex items-center gap-0.5 ${isCursor ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}>
+                <button
+                  onClick={(e) => { e.stopPropagation(); nudge(index, -NUDGE_SECONDS); }}
+                  disabled={line.time === null}
+                  className="w-6 h-6 flex items-center justify-center rounded text-white/50 hover:text-white hover:bg-white/10 disabled:opacity-30"
+                  title="-100 ms"
+                >
+                  <Minus size={12} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); nudge(index, NUDGE_SECONDS); }}
+                  disabled={line.time === null}
+                  className="w-6 h-6 flex items-center justify-center rounded text-white/50 hover:text-white hover:bg-white/10 disabled:opacity-30"
+                  title="+100 ms"
+                >
+                  <Plus size={12} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); replayFrom(index); }}
+                  className="w-6 h-6 flex items-center justify-center rounded text-white/50 hover:text-white hover:bg-white/10"
+                  title="Rejouer depuis cette ligne"
+                >
+                  <RotateCcw size={12} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-[10px] text-white/40 tracking-wide mb-4">
+        Espace : marquer la ligne · ←/→ : ±100 ms · R : rejouer · P : lecture · Retour arrière : annuler
+        <span className="float-right tabular-nums">{timedCount}/{lines.length}</span>
+      </p>
+
+      <div className="flex gap-3">
+        <button
+          onClick={onCancel}
+          className="flex items-center justify-center gap-2 px-4 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl transition-all text-white/80 hover:text-white text-sm font-light"
+          title="Back to text"
+        >
+          <ArrowLeft size={16} />
+        </button>
+        <button
+          onClick={() => { onTogglePlay(); containerRef.current?.focus(); }}
+          className="flex-1 flex items-center justify-center gap-2 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl transition-all text-white/80 hover:text-white text-sm font-light"
+        >
+          {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button
+          onClick={() => { undo(); containerRef.current?.focus(); }}
+          disabled={history.length === 0}
+          className="flex items-center justify-center gap-2 px-4 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl transition-all text-white/80 hover:text-white text-sm font-light disabled:opacity-30"
+          title="Undo"
+        >
+          <Undo2 size={16} />
+        </button>
+        <button
+          onClick={() => onApply(toLyrics(lines))}
+          disabled={timedCount === 0}
+          className="flex-1 flex items-center justify-center gap-2 py-3 bg-white text-black rounded-xl hover:bg-white/90 transition-all font-medium text-sm shadow-[0_0_15px_rgba(255,255,255,0.1)] disabled:opacity-40"
+        >
+          <Check size={16} />
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LyricsSyncEditor;
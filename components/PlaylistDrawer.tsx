@@ -0,0 +1,196 @@
+import React, { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ListMusic, X, GripVertical, Trash2, Music, Film } from 'lucide-react';
+import { MediaData } from '../types';
+import { MAX_CROSSFADE } from '../services/playbackEngine';
+import { getTrackTitle } from '../utils/trackTitle';
+import { formatTime } from '../utils/time';
+
+interface PlaylistDrawerProps {
+  playlist: MediaData[];
+  currentIndex: number;
+  isPlaying: boolean;
+  onSelect: (index: number) => void;
+  onRemove: (id: string) => void;
+  onReorder: (from: number, to: number) => void;
+  crossfade?: number; // Seconds between tracks, 0 for gapless
+  onCrossfadeChange?: (seconds: number) => void;
+  onClose: () => void;
+}
+
+const PlaylistDrawer: React.FC<PlaylistDrawerProps> = ({
+  playlist,
+  currentIndex,
+  isPlaying,
+  onSelect,
+  onRemove,
+  onReorder,
+  crossfade = 0,
+  onCrossfadeChange,
+  onClose
+}) => {
+  const rowRefs = useRef<(HTMLDivElement | null)[]>([]);
+  // Drag-to-reorder state: which row is being dragged and where it would land
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [dragOver, setDragOver] = useState<number | null>(null);
+
+  // Pointer events instead of HTML5 drag & drop so reordering also works on touch screens
+  const handleGripPointerDown = (e: React.PointerEvent, index: number) => {
+    e.preventDefault();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setDragFrom(index);
+    setDragOver(index);
+  };
+
+  const handleGripPointerMove = (e: React.PointerEvent) => {
+    if (dragFrom === null) return;
+    // Find the row the pointer would be inserted before...
+    let insertBefore = playlist.length;
+    for (let i = 0; i < playlist.length; i++) {
+      const row = rowRefs.current[i];
+      if (!row) continue;
+      const rect = row.getBoundingClientRect();
+      if (e.clientY < rect.top + rect.height / 2) {
+        insertBefore = i;
+        break;
+      }
+    }
+    // ...and convert it to the dragged item's final index
+    const target = insertBefore > dragFrom ? insertBefore - 1 : insertBefore;
+    setDragOver(target);
+  };
+
+  const handleGripPointerUp = () => {
+    if (dragFrom !== null && dragOver !== null && dragFrom !== dragOver) {
+      onReorder(dragFrom, dragOver);
+    }
+    setDragFrom(null);
+    setDragOver(null);
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[120] flex justify-end animate-in fade-in duration-200" onClick={onClose}>
+        <div
+            className="h-full w-full max-w-sm bg-zinc-900/80 backdrop-blur-xl border-l border-white/20 shadow-2xl flex flex-col animate-in slide-in-from-right duration-300"
+            onClick={(e) => e.stopPropagation()}
+        >
+            {/* Header */}
+            <div className="flex items-center justify-between px-6 pt-6 pb-4">
+                <h3 className="text-xl text-white font-light tracking-wider flex items-center gap-2" style={{ fontFamily: "'Londrina Sketch', cursive" }}>
+                    <ListMusic size={24} />
+                    Liste de lecture
+                </h3>
+                <button
+                    onClick={onClose}
+                    className="text-white/50 hover:text-white transition-colors"
+                >
+                    <X size={20} />
+                </button>
+            </div>
+
+            <div className="mx-6 h-[1px] bg-white/20"></div>
+
+            {/* Track List */}
+            <div className="flex-1 overflow-y-auto px-3 py-3">
+                {playlist.length === 0 ? (
+                    <div className="h-full flex items-center justify-center text-white/30 text-xs tracking-widest">
+                        Insérer la cassette
+                    </div>
+                ) : (
+                    playlist.map((item, index) => {
+                        const isCurrent = index === currentIndex;
+                        const isDragged = index === dragFrom;
+                        // Drop marker on the side of the row the dragged item would take the place of
+                        const showMarkerAbove = dragFrom !== null && dragOver === index && dragOver < dragFrom;
+                        const showMarkerBelow = dragFrom !== null && dragOver === index && dragOver > dragFrom;
+
+                        return (
+                            <div
+                                key={item.id}
+                                ref={(el) => { rowRefs.current[index] = el }}
+                                className={`relative flex items-center gap-2 px-2 py-2 rounded-lg group transition-all ${
+                                    isCurrent ? 'bg-white/10' : 'hover:bg-white/5'
+                                } ${isDragged ? 'opacity-40' : ''}`}
+                            >
+                                {showMarkerAbove && <div className="absolute -top-[1px] left-2 right-2 h-[2px] bg-white/80 rounded-full"></div>}
+                                {showMarkerBelow && <div className="absolute -bottom-[1px] left-2 right-2 h-[2px] bg-white/80 rounded-full"></div>}
+
+                                {/* Drag Handle */}
+                                <div
+                                    className="shrink-0 w-6 h-8 flex items-center justify-center text-white/30 hover:text-white/80 cursor-grab active:cursor-grabbing touch-none"
+                                    onPointerDown={(e) => handleGripPointerDown(e, index)}
+                                    onPointerMove={handleGripPointerMove}
+                                    onPointerUp={handleGripPointerUp}
+                                    onPointerCancel={handleGripPointerUp}
+                                    title="Drag to reorder"
+                                >
+                                    <GripVertical size={14} />
+                                </div>
+
+                                {/* Click-to-play */}
+                                <button
+                                    onClick={() => onSelect(index)}
+                                    className="flex-1 min-w-0 flex items-center gap-3 text-left"
+                                    title="Play"
+                                >
+                                    <span className="shrink-0 w-5 text-[10px] text-white/40 tabular-nums text-right">
+                                        {isCurrent && isPlaying ? (
+                                            <span className="inline-block w-1.5 h-1.5 rounded-full bg-emerald-300 shadow-[0_0_8px_#6ee7b7]"></span>
+                                        ) : index + 1}
+                                    </span>
+                                    {item.type === 'video'
+                                        ? <Film size={14} className="shrink-0 text-white/50" />
+                                        : <Music size={14} className="shrink-0 text-white/50" />}
+                                    <span className={`truncate text-sm font-light ${isCurrent ? 'text-white' : 'text-white/80'}`}>
+                                        {getTrackTitle(item)}
+                                    </span>
+                                    {item.duration ? (
+                                        <span className="ml-auto shrink-0 text-[10px] text-white/40 tabular-nums">
+                                            {formatTime(item.duration)}
+                                        </span>
+                                    ) : null}
+                                </button>
+
+                                {/* Remove from playlist */}
+                                <button
+                                    onClick={() => onRemove(item.id)}
+                                    className="shrink-0 w-7 h-7 flex items-center justify-center rounded-full text-white/40 hover:text-white hover:bg-red-500/80 transition-all opacity-60 group-hover:opacity-100"
+                                    title="Remove from playlist"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+
+            <div className="px-6 py-4 flex items-center gap-4 text-[10px] tracking-[0.2em] uppercase text-white/50">
+                <span className="shrink-0">{playlist.length} {playlist.length === 1 ? 'piste' : 'pistes'}</span>
+
+                {/* Transition between tracks: gapless, or an equal-power crossfade */}
+                {onCrossfadeChange && (
+                    <label className="ml-auto flex items-center gap-2" title="Fondu enchaîné entre les pistes">
+                        <span className="shrink-0">Fondu</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={MAX_CROSSFADE}
+                            step={1}
+                            value={crossfade}
+                            onChange={(e) => onCrossfadeChange(Number(e.target.value))}
+                            className="w-24 accent-white cursor-pointer"
+                        />
+                        <span className="w-14 text-right tabular-nums normal-case tracking-wider text-white/80">
+                            {crossfade > 0 ? `${crossfade} s` : 'Gapless'}
+                        </span>
+                    </label>
+                )}
+            </div>
+        </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PlaylistDrawer;
@@ -0,0 +1,164 @@
+import React, { useRef, useState } from 'react';
+import { formatTime, clamp } from '../utils/time';
+import { usePlaybackTime } from '../hooks/usePlaybackTime';
+import { Bookmark, LoopRegion } from '../types';
+
+interface ProgressLineProps {
+  duration: number;
+  onSeek: (time: number) => void;
+  disabled?: boolean;
+  bookmarks?: Bookmark[]; // Drawn as marks above the line; clicking one seeks to it
+  loopRegion?: LoopRegion | null; // A-B repeat, shaded on the line
+  loopStart?: number | null; // Point A while B is still to be set
+}
+
+// Seconds moved per arrow key press (Shift for a bigger jump)
+const KEY_STEP = 5;
+const KEY_STEP_LARGE = 30;
+
+const ProgressLine: React.FC<ProgressLineProps> = ({
+  duration,
+  onSeek,
+  disabled = false,
+  bookmarks = [],
+  loopRegion = null,
+  loopStart = null
+}) => {
+  // Follows the shared playback clock, so only the line re-renders as the track plays
+  const currentTime = usePlaybackTime();
+  const trackRef = useRef<HTMLDivElement>(null);
+  // Ratio (0-1) under the pointer while hovering or dragging
+  const [hoverRatio, setHoverRatio] = useState<number | null>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+
+  const canSeek = !disabled && duration > 0 && isFinite(duration);
+  const playedRatio = canSeek ? clamp(currentTime / duration, 0, 1) : 0;
+  // While scrubbing the line follows the finger, the audio only jumps on release
+  const shownRatio = isScrubbing && hoverRatio !== null ? hoverRatio : playedRatio;
+  const shownTime = shownRatio * duration;
+  const toPercent = (time: number) => `${clamp(time / duration, 0, 1) * 100}%`;
+
+  const ratioFromEvent = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return clamp((clientX - rect.left) / rect.width, 0, 1);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!canSeek) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsScrubbing(true);
+    setHoverRatio(ratioFromEvent(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!canSeek) return;
+    setHoverRatio(ratioFromEvent(e.clientX));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isScrubbing) return;
+    setIsScrubbing(false);
+    onSeek(ratioFromEvent(e.clientX) * duration);
+    // Touch has no hover state to return to
+    if (e.pointerType !== 'mouse') setHoverRatio(null);
+  };
+
+  const handlePointerCancel = () => {
+    setIsScrubbing(false);
+    setHoverRatio(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!canSeek) return;
+    const step = e.shiftKey ? KEY_STEP_LARGE : KEY_STEP;
+    let target: number | null = null;
+    if (e.key === 'ArrowRight' || e.key === 'ArrowUp') target = currentTime + step;
+    else if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') target = currentTime - step;
+    else if (e.key === 'Home') target = 0;
+    else if (e.key === 'End') target = duration;
+    if (target === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onSeek(clamp(target, 0, duration));
+  };
+
+  return (
+    <div className="w-full mb-4 md:mb-6">
+        {/* Minimalist Line */}
+        <div
+            ref={trackRef}
+            role="slider"
+            tabIndex={canSeek ? 0 : -1}
+            aria-label="Seek"
+            aria-valuemin={0}
+            aria-valuemax={Math.floor(duration || 0)}
+            aria-valuenow={Math.floor(currentTime)}
+            aria-valuetext={formatTime(currentTime)}
+            className={`w-full h-[1px] bg-white/20 relative group touch-none outline-none focus-visible:bg-white/40 ${canSeek ? 'cursor-pointer' : 'cursor-default'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerCancel}
+            onPointerLeave={() => { if (!isScrubbing) setHoverRatio(null); }}
+            onKeyDown={handleKeyDown}
+        >
+             {/* Enlarged hit area */}
+             <div className="absolute -top-3 -bottom-3 w-full z-10"></div>
+             <div
+               className={`h-full bg-white/90 relative shadow-[0_0_10px_rgba(255,255,255,0.3)] ${isScrubbing ? '' : 'transition-all duration-300'}`}
+               style={{ width: `${shownRatio * 100}%` }}
+             >
+                <div className={`absolute right-0 top-1/2 -translate-y-1/2 w-2.5 h-2.5 bg-white rotate-45 shadow-md transition-transform duration-200 ${isScrubbing ? 'scale-100' : 'scale-0 group-hover:scale-100 group-focus-visible:scale-100'}`}></div>
+             </div>
+
+             {/* A-B repeat */}
+             {canSeek && loopRegion && (
+                <div
+                    className="absolute -top-[3px] h-[7px] bg-amber-200/25 border-x border-amber-200/80 pointer-events-none"
+                    style={{ left: toPercent(loopRegion.start), width: `calc(${toPercent(loopRegion.end)} - ${toPercent(loopRegion.start)})` }}
+                ></div>
+             )}
+             {canSeek && !loopRegion && loopStart !== null && (
+                <div
+                    className="absolute -top-[3px] h-[7px] w-px bg-amber-200/80 animate-pulse pointer-events-none"
+                    style={{ left: toPercent(loopStart) }}
+                ></div>
+             )}
+
+             {/* Bookmarks */}
+             {canSeek && bookmarks.map(bookmark => (
+                <button
+                    key={bookmark.id}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => onSeek(bookmark.time)}
+                    className="absolute -top-3 -translate-x-1/2 w-3 h-3 flex items-start justify-center z-20 group/mark"
+                    style={{ left: toPercent(bookmark.time) }}
+                    title={`${bookmark.label} · ${formatTime(bookmark.time)}`}
+                    tabIndex={-1}
+                >
+                    <span className="w-1.5 h-1.5 bg-white/70 rotate-45 transition-transform group-hover/mark:scale-150 group-hover/mark:bg-white"></span>
+                </button>
+             ))}
+
+             {/* Preview Tooltip */}
+             {canSeek && hoverRatio !== null && (
+                <div
+                    className="absolute bottom-3 -translate-x-1/2 px-2 py-0.5 rounded-full bg-black/40 backdrop-blur-md border border-white/10 text-[9px] tracking-widest text-white/90 tabular-nums pointer-events-none z-20 whitespace-nowrap"
+                    style={{ left: `${hoverRatio * 100}%` }}
+                >
+                    {formatTime(hoverRatio * duration)}
+                </div>
+             )}
+        </div>
+
+        {/* Elapsed / Remaining */}
+        <div className="flex justify-between mt-2 text-[9px] tracking-[0.2em] text-white/60 tabular-nums select-none">
+            <span>{formatTime(shownTime)}</span>
+            <span>-{formatTime(canSeek ? duration - shownTime : 0)}</span>
+        </div>
+    </div>
+  );
+};
+
+export default ProgressLine;
@@ -1,12 +1,26 @@
 import React, { useRef, useEffect } from 'react';
-import { Season, Particle } from '../types';
+import { Season, Particle, AudioBands } from '../types';
 
 interface SeasonalCanvasProps {
   season: Season;
+  // Audio-reactive mode: called once per frame with the playing audio's band energies.
+  // Leave undefined for the classic fixed-speed particles.
+  getAudioBands?: () => AudioBands;
 }
 
-const SeasonalCanvas: React.FC<SeasonalCanvasProps> = ({ season }) => {
+// How strongly each particle type is pushed around by bass "wind gusts"
+const WIND_RESPONSE: Record<string, number> = {
+  petal: 1,
+  leaf: 1.2,
+  snow: 0.5,
+  rain: 0.25,
+};
+
+const SeasonalCanvas: React.FC<SeasonalCanvasProps> = ({ season, getAudioBands }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Read through a ref so toggling the effect doesn't restart the particle system
+  const getAudioBandsRef = useRef(getAudioBands);
+  getAudioBandsRef.current = getAudioBands;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -101,26 +115,26 @@ const SeasonalCanvas: React.FC<SeasonalCanvasProps> = ({ season }) => {
       }
     };
 
+    const typeMap: Record<Season, 'petal' | 'rain' | 'leaf' | 'snow'> = {
+        [Season.Spring]: 'petal',
+        [Season.Summer]: 'rain',
+        [Season.Autumn]: 'leaf',
+        [Season.Winter]: 'snow',
+    };
+
+    let baseCount = 150; // Default count for Spring/Winter
+    if (season === Season.Summer) {
+        baseCount = 100;
+    } else if (season === Season.Autumn) {
+        baseCount = 50; // Reduced count for Autumn leaves
+    }
+
     // Initial fill
     const fillParticles = () => {
         particles = [];
         landedParticles = []; // Reset landed particles on season change
         
-        let count = 150; // Default count for Spring/Winter
-        if (season === Season.Summer) {
-            count = 100;
-        } else if (season === Season.Autumn) {
-            count = 50; // Reduced count for Autumn leaves
-        }
-
-        const typeMap: Record<Season, 'petal' | 'rain' | 'leaf' | 'snow'> = {
-            [Season.Spring]: 'petal',
-            [Season.Summer]: 'rain',
-            [Season.Autumn]: 'leaf',
-            [Season.Winter]: 'snow',
-        };
-        
-        for (let i = 0; i < count; i++) {
+        for (let i = 0; i < baseCount; i++) {
             particles.push({
                 ...initParticle(typeMap[season]),
                 y: Math.random() * height // Start randomly on screen initially
@@ -170,9 +184,39 @@ const SeasonalCanvas: React.FC<SeasonalCanvasProps> = ({ season }) => {
         }
     };
 
+    // --- Audio Reaction State (smoothed so gusts build and fade instead of flickering) ---
+    let wind = 0;
+    let swayBoost = 0;
+    let targetCount = baseCount;
+
+    const reactToAudio = () => {
+      const getBands = getAudioBandsRef.current;
+      if (!getBands) {
+        wind *= 0.95;
+        swayBoost *= 0.95;
+        targetCount = baseCount;
+        return;
+      }
+      const bands = getBands();
+      // Bass pushes a gust that alternates direction slowly over time
+      const gustDirection = Math.sin(performance.now() / 4000) >= 0 ? 1 : -1;
+      wind += (bands.bass * bands.bass * 6 * gustDirection - wind) * 0.08;
+      swayBoost += (bands.bass * 3 - swayBoost) * 0.1;
+      // Quiet passages thin the sky out, loud ones fill it
+      targetCount = Math.round(baseCount * (0.4 + bands.loudness * 1.2));
+
+      // Onsets make the rain splash
+      if (bands.transient && season === Season.Summer) {
+        const bursts = 1 + Math.floor(bands.bass * 3);
+        for (let i = 0; i < bursts; i++) createFirework(random(0, width), height - 2);
+      }
+    };
+
     // --- Animation Loop ---
     const animate = () => {
       ctx.clearRect(0, 0, width, height);
+      reactToAudio();
+      let fallingCount = 0;
       
       // 1. Draw Landed Particles (Autumn Leaves)
       for (const p of landedParticles) {
@@ -204,14 +248,16 @@ const SeasonalCanvas: React.FC<SeasonalCanvasProps> = ({ season }) => {
           continue;
         }
 
+        fallingCount++;
+
         // Standard Falling Physics
-        p.x += p.vx;
+        p.x += p.vx + wind * (WIND_RESPONSE[p.type || 'snow'] || 0);
         p.y += p.vy;
         
         // Specific Season Behavior
         if (season === Season.Spring || season === Season.Autumn) {
-            p.rotation = (p.rotation || 0) + (p.rotationSpeed || 0);
-            p.x += Math.sin(p.y * 0.01) * 0.5; // Sway
+            p.rotation = (p.rotation || 0) + (p.rotationSpeed || 0) * (1 + swayBoost);
+            p.x += Math.sin(p.y * 0.01) * (0.5 + swayBoost); // Sway
         }
 
         // Drawing
@@ -222,7 +268,11 @@ const SeasonalCanvas: React.FC<SeasonalCanvasProps> = ({ season }) => {
         ctx.restore();
 
         // Reset if out of bounds
-        if (p.y > height) {
+        if (p.y > height && fallingCount > targetCount) {
+           // Thin out towards the audio-driven density
+           particles.splice(i, 1);
+           fallingCount--;
+        } else if (p.y > height) {
            if (p.type === 'rain') {
              // Spawn white linear fireworks at ground
              createFirework(p.x, height - 2);
@@ -242,13 +292,13 @@ const SeasonalCanvas: React.FC<SeasonalCanvasProps> = ({ season }) => {
              particles[i] = initParticle('leaf');
            } else {
              // Reset others to top
-             const typeMap: Record<Season, 'petal' | 'leaf' | 'snow'> = {
+             const resetTypeMap: Record<Season, 'petal' | 'leaf' | 'snow'> = {
                 [Season.Spring]: 'petal',
                 [Season.Autumn]: 'leaf',
                 [Season.Winter]: 'snow',
                 [Season.Summer]: 'leaf'
             };
-            const pType = season === Season.Summer ? 'rain' : typeMap[season];
+            const pType = season === Season.Summer ? 'rain' : resetTypeMap[season];
             particles[i] = initParticle(pType);
            }
         }
@@ -258,6 +308,11 @@ const SeasonalCanvas: React.FC<SeasonalCanvasProps> = ({ season }) => {
         if (p.x < -20) p.x = width + 20;
       }
 
+      // Top up towards the audio-driven density, a few per frame so it fades in
+      for (let n = 0; n < 3 && fallingCount < targetCount; n++, fallingCount++) {
+        particles.push(initParticle(typeMap[season]));
+      }
+
       animationFrameId = requestAnimationFrame(animate);
     };
 
@@ -0,0 +1,65 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { Keyboard, X } from 'lucide-react';
+import { ShortcutGroup, formatKey } from '../services/shortcuts';
+import { useRegisteredShortcuts } from '../hooks/useShortcuts';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+const GROUP_ORDER: ShortcutGroup[] = ['Lecture', 'Volume', 'Affichage'];
+
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => {
+  const shortcuts = useRegisteredShortcuts();
+
+  return createPortal(
+    <div className="fixed inset-0 z-[160] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+        <div
+            className="w-full max-w-md bg-zinc-900/90 backdrop-blur-xl border border-white/20 rounded-3xl p-6 shadow-2xl relative"
+            onClick={(e) => e.stopPropagation()}
+        >
+            <button
+                onClick={onClose}
+                className="absolute top-4 right-4 text-white/50 hover:text-white transition-colors"
+            >
+                <X size={20} />
+            </button>
+
+            <h3 className="text-xl text-white font-light mb-4 tracking-wider flex items-center gap-2" style={{ fontFamily: "'Londrina Sketch', cursive" }}>
+                <Keyboard size={24} />
+                Raccourcis / Shortcuts
+            </h3>
+
+            <div className="max-h-[60vh] overflow-y-auto flex flex-col gap-5">
+                {GROUP_ORDER.map(group => {
+                    const items = shortcuts.filter(s => s.group === group);
+                    if (items.length === 0) return null;
+                    return (
+                        <div key={group}>
+                            <div className="text-[10px] tracking-[0.3em] uppercase text-white/40 mb-2">{group}</div>
+                            <div className="flex flex-col gap-1">
+                                {items.map(s => (
+                                    <div key={s.id} className="flex items-center justify-between gap-4 py-1">
+                                        <span className="text-sm text-white/80 font-light">{s.label}</span>
+                                        <span className="flex gap-1 shrink-0">
+                                            {s.keys.map(k => (
+                                                <kbd key={k} className="min-w-[1.75rem] px-2 py-0.5 text-center text-[11px] text-white/90 border border-white/30 rounded-md bg-white/5 font-mono">
+                                                    {formatKey(k)}
+                                                </kbd>
+                                            ))}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ShortcutHelp;
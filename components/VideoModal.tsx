@@ -1,15 +1,51 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { X, Moon, Sun, Film } from 'lucide-react';
+import { useShortcuts } from '../hooks/useShortcuts';
 
 interface VideoModalProps {
   url: string;
   onClose: () => void;
   onEnded?: () => void;
+  loop?: boolean;
+  volume?: number;
+  muted?: boolean;
 }
 
-const VideoModal: React.FC<VideoModalProps> = ({ url, onClose, onEnded }) => {
+const SEEK_STEP = 5;
+
+const VideoModal: React.FC<VideoModalProps> = ({ url, onClose, onEnded, loop = false, volume = 1, muted = false }) => {
   // State for "Cinema Mode" (Lights Off)
   const [isCinemaMode, setIsCinemaMode] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) video.play().catch(e => console.warn("Playback failed:", e));
+    else video.pause();
+  };
+
+  const seekBy = (delta: number) => {
+    const video = videoRef.current;
+    if (!video || !isFinite(video.duration)) return;
+    video.currentTime = Math.min(Math.max(video.currentTime + delta, 0), video.duration);
+  };
+
+  // Registered after the radio's, so the same keys drive the video while it is open
+  useShortcuts([
+    { id: 'cinema-mode', keys: ['c'], label: 'Mode cinéma', group: 'Affichage', handler: () => setIsCinemaMode(prev => !prev) },
+    { id: 'video-play-pause', keys: ['Space', 'k'], label: 'Lecture / pause (vidéo)', group: 'Lecture', handler: togglePlay },
+    { id: 'video-seek-back', keys: ['ArrowLeft'], label: `Reculer de ${SEEK_STEP}s (vidéo)`, group: 'Lecture', handler: () => seekBy(-SEEK_STEP) },
+    { id: 'video-seek-forward', keys: ['ArrowRight'], label: `Avancer de ${SEEK_STEP}s (vidéo)`, group: 'Lecture', handler: () => seekBy(SEEK_STEP) },
+  ]);
+
+  // Follow the player's master volume
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.volume = volume;
+      videoRef.current.muted = muted;
+    }
+  }, [volume, muted, url]);
 
   return (
     <div 
@@ -69,9 +105,11 @@ const VideoModal: React.FC<VideoModalProps> = ({ url, onClose, onEnded }) => {
                 {/* Inner Bezel */}
                 <div className="rounded-[1.5rem] md:rounded-[2rem] overflow-hidden bg-black relative">
                     <video 
+                        ref={videoRef}
                         src={url} 
                         controls 
                         autoPlay 
+                        loop={loop}
                         onEnded={onEnded}
                         className="w-full h-auto max-h-[70vh] block shadow-inner"
                         style={{ boxShadow: 'inset 0 0 20px rgba(0,0,0,0.5)' }}
@@ -0,0 +1,113 @@
+import React, { useRef } from 'react';
+import { clamp } from '../utils/time';
+
+interface VolumeKnobProps {
+  volume: number; // 0 - 1
+  muted: boolean;
+  onChange: (volume: number) => void;
+  onToggleMute: () => void;
+  size?: number;
+}
+
+// Knob sweep: 7 o'clock to 5 o'clock, like a real radio dial
+const SWEEP_DEGREES = 270;
+const START_DEGREES = -135;
+// Pixels of vertical drag for a full sweep
+const DRAG_RANGE = 120;
+const STEP = 0.05;
+
+const VolumeKnob: React.FC<VolumeKnobProps> = ({ volume, muted, onChange, onToggleMute, size = 36 }) => {
+  const dragRef = useRef<{ startY: number; startVolume: number } | null>(null);
+
+  const angle = START_DEGREES + volume * SWEEP_DEGREES;
+  const ticks = [...Array(11)].map((_, i) => START_DEGREES + (i / 10) * SWEEP_DEGREES);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startY: e.clientY, startVolume: volume };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    const delta = (dragRef.current.startY - e.clientY) / DRAG_RANGE;
+    onChange(clamp(dragRef.current.startVolume + delta, 0, 1));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    onChange(clamp(volume + (e.deltaY < 0 ? STEP : -STEP), 0, 1));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    let next: number | null = null;
+    if (e.key === 'ArrowUp' || e.key === 'ArrowRight') next = volume + STEP;
+    else if (e.key === 'ArrowDown' || e.key === 'ArrowLeft') next = volume - STEP;
+    else if (e.key === 'Home') next = 0;
+    else if (e.key === 'End') next = 1;
+    else if (e.key === 'Enter') {
+      e.preventDefault();
+      onToggleMute();
+      return;
+    }
+    if (next === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onChange(clamp(next, 0, 1));
+  };
+
+  return (
+    <div
+        role="slider"
+        tabIndex={0}
+        aria-label="Volume"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(volume * 100)}
+        aria-valuetext={muted ? 'Muted' : `${Math.round(volume * 100)}%`}
+        className={`relative shrink-0 cursor-ns-resize touch-none outline-none rounded-full focus-visible:ring-1 focus-visible:ring-white/60 transition-opacity duration-300 ${muted ? 'opacity-50' : 'opacity-100'}`}
+        style={{ width: size, height: size }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onWheel={handleWheel}
+        onKeyDown={handleKeyDown}
+        onDoubleClick={onToggleMute}
+        title={`Volume ${Math.round(volume * 100)}%${muted ? ' (muted)' : ''} · double-click to mute`}
+    >
+        <svg viewBox="-20 -20 40 40" className="w-full h-full overflow-visible">
+            {/* Scale ticks */}
+            {ticks.map((tick, i) => (
+                <line
+                    key={i}
+                    x1={0} y1={-17} x2={0} y2={i % 5 === 0 ? -14 : -15.5}
+                    transform={`rotate(${tick})`}
+                    stroke="white"
+                    strokeOpacity={tick <= angle && !muted ? 0.9 : 0.3}
+                    strokeWidth={0.8}
+                    strokeLinecap="round"
+                />
+            ))}
+            {/* Knob body - slightly wobbly double outline for the hand-drawn look */}
+            <circle cx={0} cy={0} r={11} fill="rgba(255,255,255,0.05)" stroke="white" strokeOpacity={0.8} strokeWidth={0.8} />
+            <circle cx={0.4} cy={-0.3} r={11.4} fill="none" stroke="white" strokeOpacity={0.25} strokeWidth={0.5} />
+            {/* Indicator */}
+            <line
+                x1={0} y1={-3} x2={0} y2={-9}
+                transform={`rotate(${angle})`}
+                stroke="white"
+                strokeWidth={1.4}
+                strokeLinecap="round"
+            />
+            {muted && (
+                <line x1={-6} y1={6} x2={6} y2={-6} stroke="white" strokeOpacity={0.8} strokeWidth={0.8} strokeLinecap="round" />
+            )}
+        </svg>
+    </div>
+  );
+};
+
+export default VolumeKnob;
@@ -0,0 +1,19 @@
+import { useEffect, useRef } from 'react';
+
+// Run `callback` on every animation frame while `active` is true.
+// Used for visuals that update straight on the DOM/canvas instead of through React state.
+export const useAnimationFrame = (callback: (time: number) => void, active = true) => {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    if (!active) return;
+    let frameId: number;
+    const loop = (time: number) => {
+      callbackRef.current(time);
+      frameId = requestAnimationFrame(loop);
+    };
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [active]);
+};
@@ -0,0 +1,128 @@
+import { useEffect, useRef } from 'react';
+
+// Bridge to the Media Session API so hardware media keys and the OS "now playing"
+// widget control the radio even when the tab is in the background.
+
+interface MediaSessionActions {
+  play: () => void;
+  pause: () => void;
+  previous?: () => void;
+  next?: () => void;
+  seekTo: (time: number) => void;
+  getPosition: () => number;
+}
+
+interface MediaSessionOptions {
+  title: string | null; // null clears the session
+  artist?: string;
+  album?: string;
+  artworkUrl?: string | null;
+  isPlaying: boolean;
+  duration: number;
+  playbackRate?: number;
+  actions: MediaSessionActions;
+}
+
+const DEFAULT_SEEK_OFFSET = 10;
+
+const isSupported = () => typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+const setHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Older browsers throw for actions they don't know about
+  }
+};
+
+export const useMediaSession = ({
+  title,
+  artist,
+  album,
+  artworkUrl,
+  isPlaying,
+  duration,
+  playbackRate = 1,
+  actions
+}: MediaSessionOptions) => {
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  // Metadata: title, cover art
+  useEffect(() => {
+    if (!isSupported()) return;
+    if (!title) {
+      navigator.mediaSession.metadata = null;
+      return;
+    }
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title,
+      artist: artist || 'Beomedio',
+      album: album || '',
+      artwork: artworkUrl ? [{ src: artworkUrl, sizes: '512x512' }] : []
+    });
+  }, [title, artist, album, artworkUrl]);
+
+  useEffect(() => {
+    if (!isSupported()) return;
+    navigator.mediaSession.playbackState = title ? (isPlaying ? 'playing' : 'paused') : 'none';
+  }, [title, isPlaying]);
+
+  // Position state, refreshed whenever playback state or timing changes
+  const updatePositionState = () => {
+    if (!isSupported() || !navigator.mediaSession.setPositionState) return;
+    try {
+      if (!title || !isFinite(duration) || duration <= 0) {
+        navigator.mediaSession.setPositionState();
+        return;
+      }
+      navigator.mediaSession.setPositionState({
+        duration,
+        playbackRate,
+        position: Math.min(Math.max(actionsRef.current.getPosition(), 0), duration)
+      });
+    } catch (e) {
+      console.warn("Could not update media session position:", e);
+    }
+  };
+
+  const updatePositionRef = useRef(updatePositionState);
+  updatePositionRef.current = updatePositionState;
+
+  useEffect(() => {
+    updatePositionState();
+  }, [title, isPlaying, duration, playbackRate]);
+
+  // Action handlers (registered once, always call the latest callbacks)
+  const hasPrevious = !!actions.previous;
+  const hasNext = !!actions.next;
+
+  useEffect(() => {
+    if (!isSupported()) return;
+    const seekBy = (offset: number) => {
+      actionsRef.current.seekTo(actionsRef.current.getPosition() + offset);
+      updatePositionRef.current();
+    };
+
+    setHandler('play', () => actionsRef.current.play());
+    setHandler('pause', () => actionsRef.current.pause());
+    setHandler('stop', () => actionsRef.current.pause());
+    setHandler('seekbackward', (details) => seekBy(-(details.seekOffset || DEFAULT_SEEK_OFFSET)));
+    setHandler('seekforward', (details) => seekBy(details.seekOffset || DEFAULT_SEEK_OFFSET));
+    setHandler('seekto', (details) => {
+      if (details.seekTime === undefined) return;
+      actionsRef.current.seekTo(details.seekTime);
+      updatePositionRef.current();
+    });
+    // Only advertise skip buttons when there is somewhere to go
+    setHandler('previoustrack', hasPrevious ? () => actionsRef.current.previous?.() : null);
+    setHandler('nexttrack', hasNext ? () => actionsRef.current.next?.() : null);
+
+    return () => {
+      (['play', 'pause', 'stop', 'seekbackward', 'seekforward', 'seekto', 'previoustrack', 'nexttrack'] as MediaSessionAction[])
+        .forEach(action => setHandler(action, null));
+    };
+  }, [hasPrevious, hasNext]);
+
+  return { updatePositionState };
+};
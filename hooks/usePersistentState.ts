@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+
+// useState that remembers its value in localStorage (for small preferences, not media)
+export const usePersistentState = <T>(key: string, defaultValue: T) => {
+  const storageKey = `take-my-half:${key}`;
+
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(storageKey);
+      return stored !== null ? (JSON.parse(stored) as T) : defaultValue;
+    } catch {
+      return defaultValue;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(value));
+    } catch (e) {
+      console.warn(`Could not save preference "${key}":`, e);
+    }
+  }, [storageKey, value]);
+
+  return [value, setValue] as const;
+};
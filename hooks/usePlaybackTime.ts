@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+import { getPlaybackTime, subscribePlaybackTime } from '../services/playbackClock';
+
+const subscribeNever = () => () => {};
+const identity = (time: number) => time;
+
+// Current playback time from the shared clock, re-rendering only when `select`'s result changes.
+// Selecting something coarse (the active lyric line, a whole percent) keeps re-renders rare;
+// pass `active = false` to stop listening altogether, e.g. while hidden.
+export const usePlaybackTime = <T = number>(
+  select: (time: number) => T = identity as unknown as (time: number) => T,
+  active = true
+): T =>
+  useSyncExternalStore(active ? subscribePlaybackTime : subscribeNever, () => select(getPlaybackTime()));
@@ -0,0 +1,24 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { Shortcut, registerShortcut, getShortcuts, subscribeShortcuts } from '../services/shortcuts';
+
+// Register keyboard shortcuts for as long as the calling component is mounted.
+// Handlers may change every render; they are read through a ref so bindings aren't re-registered.
+export const useShortcuts = (shortcuts: Shortcut[], enabled = true) => {
+  const handlersRef = useRef<Record<string, Shortcut['handler']>>({});
+  handlersRef.current = Object.fromEntries(shortcuts.map(s => [s.id, s.handler]));
+
+  const signature = shortcuts.map(s => `${s.id}:${s.keys.join(',')}:${s.label}`).join('|');
+
+  useEffect(() => {
+    if (!enabled) return;
+    const unregister = shortcuts.map(s => registerShortcut({
+      ...s,
+      handler: (e) => handlersRef.current[s.id]?.(e)
+    }));
+    return () => unregister.forEach(fn => fn());
+  }, [signature, enabled]);
+};
+
+// Live list of registered shortcuts, for the help overlay
+export const useRegisteredShortcuts = (): Shortcut[] =>
+  useSyncExternalStore(subscribeShortcuts, getShortcuts);
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import { SleepTimerMode } from '../types';
+import { getOutputBus, hasAudioContext, rampGain } from '../services/audioGraph';
+import { getActiveDeck, getRemainingTime } from '../services/playbackEngine';
+
+// Sleep timer: counts down to a pause, fading the whole output out over the last `fadeSeconds`.
+// The countdown is checked on a coarse tick; the fade and the final pause are timed precisely.
+
+const TICK_MS = 500;
+// Track modes stop this much before the engine would hand over to the next track (more than a tick)
+const TRACK_END_LEAD = 0.6;
+
+interface SleepTimerOptions {
+  isPlaying: boolean;
+  fadeSeconds: number;
+  crossfade: number; // The hand-over to the next track starts this early
+  isLastTrack: boolean; // "End of playlist" waits for this
+  onSleep: () => void; // Pauses playback
+}
+
+export interface SleepTimer {
+  mode: SleepTimerMode | null;
+  remaining: number | null; // Seconds until the pause; null while waiting for the last track
+  total: number | null; // What `remaining` counts down from, for the ring
+  start: (mode: SleepTimerMode) => void;
+  cancel: () => void;
+}
+
+const fadeOutput = (seconds: number) => {
+  if (!hasAudioContext()) return;
+  const bus = getOutputBus();
+  if (bus) rampGain(bus, 0, seconds);
+};
+
+const restoreOutput = () => {
+  if (!hasAudioContext()) return;
+  const bus = getOutputBus();
+  if (bus) rampGain(bus, 1);
+};
+
+export const useSleepTimer = ({ isPlaying, fadeSeconds, crossfade, isLastTrack, onSleep }: SleepTimerOptions): SleepTimer => {
+  const [mode, setMode] = useState<SleepTimerMode | null>(null);
+  const [endsAt, setEndsAt] = useState(0); // Date.now() based, for the minute modes
+  const [countdown, setCountdown] = useState<{ remaining: number | null; total: number | null }>({ remaining: null, total: null });
+  // Pending end of the fade, once it has started
+  const fadeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onSleepRef = useRef(onSleep);
+  onSleepRef.current = onSleep;
+
+  const stopFade = () => {
+    if (fadeTimerRef.current === null) return;
+    clearTimeout(fadeTimerRef.current);
+    fadeTimerRef.current = null;
+    restoreOutput();
+  };
+
+  const cancel = () => {
+    stopFade();
+    setMode(null);
+    setCountdown({ remaining: null, total: null });
+  };
+
+  const start = (next: SleepTimerMode) => {
+    stopFade();
+    setMode(next);
+    setEndsAt(typeof next === 'number' ? Date.now() + next * 60000 : 0);
+    setCountdown({ remaining: typeof next === 'number' ? next * 60 : null, total: typeof next === 'number' ? next * 60 : null });
+  };
+
+  // Full volume comes back once the deck has actually stopped (the tape winds down first)
+  const sleep = () => {
+    fadeTimerRef.current = null;
+    const deck = getActiveDeck();
+    if (deck.paused) restoreOutput();
+    else deck.addEventListener('pause', restoreOutput, { once: true });
+    onSleepRef.current();
+    setMode(null);
+    setCountdown({ remaining: null, total: null });
+  };
+
+  const measure = (): { remaining: number | null; total: number | null } => {
+    if (typeof mode === 'number') return { remaining: (endsAt - Date.now()) / 1000, total: mode * 60 };
+    if (mode === 'playlist' && !isLastTrack) return { remaining: null, total: null };
+    const deck = getActiveDeck();
+    const remaining = getRemainingTime() - crossfade - TRACK_END_LEAD;
+    return { remaining, total: isFinite(deck.duration) ? deck.duration / (deck.playbackRate || 1) : null };
+  };
+
+  useEffect(() => {
+    if (mode === null) return;
+    const tick = () => {
+      const next = measure();
+      // A track's countdown only moves while it plays
+      if (typeof mode === 'number' || isPlaying) setCountdown(next);
+      if (next.remaining === null || !isFinite(next.remaining)) return;
+
+      if (!isPlaying) {
+        // Ran out while paused: nothing left to do
+        if (next.remaining <= 0) cancel();
+        return;
+      }
+      if (fadeTimerRef.current === null && next.remaining <= fadeSeconds) {
+        const seconds = Math.max(0, next.remaining);
+        fadeOutput(seconds);
+        fadeTimerRef.current = setTimeout(sleep, seconds * 1000);
+      }
+    };
+    tick();
+    const id = setInterval(tick, TICK_MS);
+    return () => clearInterval(id);
+  }, [mode, endsAt, isPlaying, fadeSeconds, crossfade, isLastTrack]);
+
+  // Paused (or moved on) mid-fade: bring the sound back; the fade starts over on resume
+  useEffect(() => {
+    if (!isPlaying) stopFade();
+  }, [isPlaying]);
+
+  useEffect(() => () => stopFade(), []);
+
+  return { mode, remaining: countdown.remaining, total: countdown.total, start, cancel };
+};
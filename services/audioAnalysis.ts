@@ -0,0 +1,111 @@
+import { AudioBands } from '../types';
+import { getAnalyser, hasAudioContext } from './audioGraph';
+
+// Turns the shared AnalyserNode's spectrum into a few normalized band energies
+// plus a simple onset (transient) detector, for the visuals.
+
+const BANDS = {
+  bass: [20, 150],
+  mid: [150, 2000],
+  treble: [2000, 10000],
+} as const;
+
+// Onset detection: bass+mid energy jumping well above its recent average
+const HISTORY_FRAMES = 40; // ~0.7s at 60fps
+const TRANSIENT_RATIO = 1.45;
+const TRANSIENT_FLOOR = 0.18;
+const TRANSIENT_COOLDOWN_MS = 180;
+
+const SILENT: AudioBands = { bass: 0, mid: 0, treble: 0, loudness: 0, transient: false };
+
+let frequencyData: Uint8Array | null = null;
+let timeData: Uint8Array | null = null;
+const energyHistory: number[] = [];
+let lastTransientAt = 0;
+let lastRead: { at: number; bands: AudioBands } | null = null;
+
+const bandEnergy = (data: Uint8Array, sampleRate: number, [low, high]: readonly [number, number]) => {
+  const binHz = sampleRate / 2 / data.length;
+  const start = Math.max(1, Math.floor(low / binHz));
+  const end = Math.min(data.length - 1, Math.ceil(high / binHz));
+  let sum = 0;
+  for (let i = start; i <= end; i++) sum += data[i];
+  return end >= start ? sum / ((end - start + 1) * 255) : 0;
+};
+
+// Raw byte spectrum (0-255 per bin), or null before any audio has been routed
+export const readSpectrum = (): Uint8Array | null => {
+  if (!hasAudioContext()) return null;
+  const analyser = getAnalyser();
+  if (!analyser) return null;
+  if (!frequencyData || frequencyData.length !== analyser.frequencyBinCount) {
+    frequencyData = new Uint8Array(analyser.frequencyBinCount);
+  }
+  analyser.getByteFrequencyData(frequencyData);
+  return frequencyData;
+};
+
+export const readAudioBands = (): AudioBands => {
+  // Several consumers may read in the same frame; only the first one advances the detector
+  const now = performance.now();
+  if (lastRead && now - lastRead.at < 8) return lastRead.bands;
+
+  const spectrum = readSpectrum();
+  const analyser = getAnalyser();
+  if (!spectrum || !analyser) return SILENT;
+
+  const sampleRate = analyser.context.sampleRate;
+  const bass = bandEnergy(spectrum, sampleRate, BANDS.bass);
+  const mid = bandEnergy(spectrum, sampleRate, BANDS.mid);
+  const treble = bandEnergy(spectrum, sampleRate, BANDS.treble);
+
+  // Loudness from the waveform RMS, scaled so typical mastered music lands around 0.5-0.8
+  if (!timeData || timeData.length !== analyser.fftSize) {
+    timeData = new Uint8Array(analyser.fftSize);
+  }
+  analyser.getByteTimeDomainData(timeData);
+  let sumSquares = 0;
+  for (let i = 0; i < timeData.length; i++) {
+    const v = (timeData[i] - 128) / 128;
+    sumSquares += v * v;
+  }
+  const loudness = Math.min(1, Math.sqrt(sumSquares / timeData.length) * 3);
+
+  const energy = bass * 0.7 + mid * 0.3;
+  const average = energyHistory.length
+    ? energyHistory.reduce((a, b) => a + b, 0) / energyHistory.length
+    : energy;
+  energyHistory.push(energy);
+  if (energyHistory.length > HISTORY_FRAMES) energyHistory.shift();
+
+  let transient = false;
+  if (energy > TRANSIENT_FLOOR && energy > average * TRANSIENT_RATIO && now - lastTransientAt > TRANSIENT_COOLDOWN_MS) {
+    transient = true;
+    lastTransientAt = now;
+  }
+
+  const bands = { bass, mid, treble, loudness, transient };
+  lastRead = { at: now, bands };
+  return bands;
+};
+
+// Spectrum folded into `count` log-spaced bands between minHz and maxHz, each 0-1
+export const readLogBands = (count: number, minHz = 40, maxHz = 14000): number[] => {
+  const spectrum = readSpectrum();
+  const analyser = getAnalyser();
+  if (!spectrum || !analyser) return new Array(count).fill(0);
+
+  const binHz = analyser.context.sampleRate / 2 / spectrum.length;
+  const ratio = Math.pow(maxHz / minHz, 1 / count);
+  const bands: number[] = [];
+  for (let b = 0; b < count; b++) {
+    const low = minHz * Math.pow(ratio, b);
+    const high = low * ratio;
+    const start = Math.max(1, Math.floor(low / binHz));
+    const end = Math.max(start, Math.min(spectrum.length - 1, Math.floor(high / binHz)));
+    let peak = 0;
+    for (let i = start; i <= end; i++) peak = Math.max(peak, spectrum[i]);
+    bands.push(peak / 255);
+  }
+  return bands;
+};
@@ -0,0 +1,104 @@
+// Shared Web Audio graph.
+// A media element can only be wrapped in a MediaElementAudioSourceNode once, so every
+// element is connected here exactly once and reuses its chain afterwards:
+//
+//   <audio> -> source -> track gain (volume + per-track trim) -> fader -> output bus -> tape -> tone -> destination
+//                     \-> analyser (visuals only, before volume so muting doesn't stop them)
+//
+// The fader stays at 1 except while the playback engine crossfades between two decks.
+// The tape (wow & flutter, hiss; see tapeTransport.ts) and tone (EQ, vintage radio; see equalizer.ts)
+// stages are shared by everything on the bus.
+
+import { connectToneStage } from './equalizer';
+import { connectTapeStage } from './tapeTransport';
+
+export interface MediaChain {
+  source: MediaElementAudioSourceNode;
+  trackGain: GainNode;
+  fader: GainNode;
+}
+
+let context: AudioContext | null = null;
+let outputBus: GainNode | null = null;
+let analyser: AnalyserNode | null = null;
+const chains = new WeakMap<HTMLMediaElement, MediaChain>();
+
+export const getAudioContext = (): AudioContext | null => {
+  if (context) return context;
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) return null;
+  context = new AudioContextClass() as AudioContext;
+  return context;
+};
+
+// Browsers keep a new context suspended until a user gesture; call this from one
+export const resumeAudioContext = async (): Promise<void> => {
+  const ctx = getAudioContext();
+  if (ctx && ctx.state === 'suspended') {
+    try {
+      await ctx.resume();
+    } catch (e) {
+      console.warn("Could not resume audio context:", e);
+    }
+  }
+};
+
+export const getOutputBus = (): GainNode | null => {
+  if (outputBus) return outputBus;
+  const ctx = getAudioContext();
+  if (!ctx) return null;
+  outputBus = ctx.createGain();
+  const tapeOut = ctx.createGain();
+  connectTapeStage(outputBus, tapeOut);
+  connectToneStage(tapeOut, ctx.destination);
+  return outputBus;
+};
+
+// Shared analyser every media source also feeds; it doesn't sit in the signal path
+export const getAnalyser = (): AnalyserNode | null => {
+  if (analyser) return analyser;
+  const ctx = getAudioContext();
+  if (!ctx) return null;
+  analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  analyser.smoothingTimeConstant = 0.6;
+  return analyser;
+};
+
+// Visuals should never be the thing that creates (a suspended) audio context
+export const hasAudioContext = () => context !== null;
+
+export const connectMediaElement = (element: HTMLMediaElement): MediaChain | null => {
+  const existing = chains.get(element);
+  if (existing) return existing;
+
+  const ctx = getAudioContext();
+  const bus = getOutputBus();
+  if (!ctx || !bus) return null;
+
+  try {
+    const source = ctx.createMediaElementSource(element);
+    const trackGain = ctx.createGain();
+    const fader = ctx.createGain();
+    source.connect(trackGain);
+    trackGain.connect(fader);
+    fader.connect(bus);
+    const tap = getAnalyser();
+    if (tap) source.connect(tap);
+    const chain = { source, trackGain, fader };
+    chains.set(element, chain);
+    return chain;
+  } catch (e) {
+    console.warn("Could not route media element through Web Audio:", e);
+    return null;
+  }
+};
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Smoothly move a gain to a new value to avoid zipper noise
+export const rampGain = (gain: GainNode, value: number, seconds = 0.05) => {
+  const ctx = gain.context;
+  gain.gain.cancelScheduledValues(ctx.currentTime);
+  gain.gain.setTargetAtTime(value, ctx.currentTime, seconds / 3);
+};
@@ -0,0 +1,136 @@
+// Tone stage between the output bus and the speakers (see audioGraph):
+//
+//   output bus -> preamp -> 10 x BiquadFilter (EQ) -+-> dry ---------------------------------------------------> destination
+//                                                   \-> highpass -> lowpass -> honk -> saturation -> mono -> wet -/
+//
+// The preamp pulls the level down by the largest boost, so a boosted band doesn't clip.
+// The "vintage radio" path is always connected; switching it crossfades dry / wet so it never clicks.
+// Settings can be changed before the audio context exists; they are applied when the stage is built.
+
+import { dbToGain } from './audioGraph';
+
+export const EQ_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_RANGE = 12; // dB either way
+export const FLAT_EQ = EQ_FREQUENCIES.map(() => 0);
+
+export interface EqPreset {
+  name: string;
+  gains: number[]; // dB per band, in EQ_FREQUENCIES order
+}
+
+export const BUILT_IN_EQ_PRESETS: EqPreset[] = [
+  { name: 'Plat', gains: FLAT_EQ },
+  { name: 'Basses', gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { name: 'Aigus', gains: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+  { name: 'Voix', gains: [-3, -2, -1, 0, 2, 3, 3, 2, 0, -1] },
+  { name: 'Loudness', gains: [5, 4, 2, 0, -1, 0, 0, 1, 3, 4] },
+  { name: 'Acoustique', gains: [2, 2, 1, 0, 1, 1, 2, 2, 1, 0] },
+];
+
+// Octave-wide bands; the outermost ones are shelves so they reach the ends of the spectrum
+const BAND_Q = 1.4;
+// Roughly a medium-wave transistor set: no lows, no highs, a nasal bump in the middle
+const VINTAGE_LOW_CUT = 300;
+const VINTAGE_HIGH_CUT = 3400;
+const VINTAGE_HONK = { frequency: 1500, gain: 4 };
+const VINTAGE_DRIVE = 2.5;
+// The band-limited path sounds quieter; bring it back up to about the same loudness
+const VINTAGE_MAKEUP = 1.6;
+const SWITCH_SECONDS = 0.08;
+
+interface ToneStage {
+  preamp: GainNode;
+  bands: BiquadFilterNode[];
+  dry: GainNode;
+  wet: GainNode;
+}
+
+let stage: ToneStage | null = null;
+let eqGains = FLAT_EQ;
+let vintage = false;
+
+// Soft clipping: tanh, scaled so full scale still maps to full scale
+const saturationCurve = (drive: number, steps = 1024) =>
+  Float32Array.from({ length: steps }, (_, i) => {
+    const x = (i / (steps - 1)) * 2 - 1;
+    return Math.tanh(drive * x) / Math.tanh(drive);
+  });
+
+const applyGains = ({ preamp, bands }: ToneStage) => {
+  const now = preamp.context.currentTime;
+  const headroom = -Math.max(0, ...eqGains.map(gain => gain || 0));
+  preamp.gain.setTargetAtTime(dbToGain(headroom), now, 0.02);
+  bands.forEach((band, i) => band.gain.setTargetAtTime(eqGains[i] || 0, now, 0.02));
+};
+
+const applyVintage = ({ dry, wet }: ToneStage, seconds = SWITCH_SECONDS) => {
+  const now = dry.context.currentTime;
+  dry.gain.setTargetAtTime(vintage ? 0 : 1, now, seconds / 3);
+  wet.gain.setTargetAtTime(vintage ? VINTAGE_MAKEUP : 0, now, seconds / 3);
+};
+
+// Builds the stage once and wires `input` through it to `output`
+export const connectToneStage = (input: AudioNode, output: AudioNode) => {
+  const ctx = input.context;
+
+  const preamp = ctx.createGain();
+  input.connect(preamp);
+
+  const bands = EQ_FREQUENCIES.map((frequency, i) => {
+    const band = ctx.createBiquadFilter();
+    band.type = i === 0 ? 'lowshelf' : i === EQ_FREQUENCIES.length - 1 ? 'highshelf' : 'peaking';
+    band.frequency.value = frequency;
+    band.Q.value = BAND_Q;
+    return band;
+  });
+  bands.reduce<AudioNode>((previous, band) => {
+    previous.connect(band);
+    return band;
+  }, preamp);
+  const eqOut = bands[bands.length - 1];
+
+  const dry = ctx.createGain();
+  eqOut.connect(dry);
+  dry.connect(output);
+
+  const lowCut = ctx.createBiquadFilter();
+  lowCut.type = 'highpass';
+  lowCut.frequency.value = VINTAGE_LOW_CUT;
+  const highCut = ctx.createBiquadFilter();
+  highCut.type = 'lowpass';
+  highCut.frequency.value = VINTAGE_HIGH_CUT;
+  const honk = ctx.createBiquadFilter();
+  honk.type = 'peaking';
+  honk.frequency.value = VINTAGE_HONK.frequency;
+  honk.gain.value = VINTAGE_HONK.gain;
+  const saturation = ctx.createWaveShaper();
+  saturation.curve = saturationCurve(VINTAGE_DRIVE);
+  saturation.oversample = '2x';
+  // A single explicit channel downmixes stereo to mono; the destination spreads it back to both speakers
+  const mono = ctx.createGain();
+  mono.channelCount = 1;
+  mono.channelCountMode = 'explicit';
+  mono.channelInterpretation = 'speakers';
+  const wet = ctx.createGain();
+  [eqOut, lowCut, highCut, honk, saturation, mono, wet].reduce((previous, node) => {
+    previous.connect(node);
+    return node;
+  });
+  wet.connect(output);
+
+  stage = { preamp, bands, dry, wet };
+  applyGains(stage);
+  applyVintage(stage, 0);
+};
+
+export const applyEqGains = (gains: number[]) => {
+  eqGains = gains;
+  if (stage) applyGains(stage);
+};
+
+export const applyVintageRadio = (enabled: boolean) => {
+  vintage = enabled;
+  if (stage) applyVintage(stage);
+};
+
+export const isSameEq = (a: number[], b: number[]) => a.length === b.length && a.every((gain, i) => gain === b[i]);
@@ -0,0 +1,134 @@
+import { StoredTrack, LibrarySession } from '../types';
+
+// Local media library backed by IndexedDB.
+// Tracks keep the original file Blob so nothing has to be re-uploaded after a reload,
+// while small key/value entries (session, background) live in the settings store.
+
+const DB_NAME = 'take-my-half';
+const DB_VERSION = 1;
+const TRACKS_STORE = 'tracks';
+const SETTINGS_STORE = 'settings';
+
+const SESSION_KEY = 'session';
+export const BACKGROUND_KEY = 'background';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TRACKS_STORE)) {
+        db.createObjectStore(TRACKS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private browsing)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Wrap a single request in its own transaction and resolve with its result
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// --- Tracks ---
+
+export const getAllTracks = (): Promise<StoredTrack[]> =>
+  runRequest<StoredTrack[]>(TRACKS_STORE, 'readonly', store => store.getAll());
+
+export const getTrack = (id: string): Promise<StoredTrack | undefined> =>
+  runRequest<StoredTrack | undefined>(TRACKS_STORE, 'readonly', store => store.get(id));
+
+export const putTrack = (track: StoredTrack): Promise<IDBValidKey> =>
+  runRequest(TRACKS_STORE, 'readwrite', store => store.put(track));
+
+// Merge a partial update into an existing track record
+export const updateTrack = async (id: string, patch: Partial<Omit<StoredTrack, 'id'>>): Promise<void> => {
+  const existing = await getTrack(id);
+  if (!existing) return;
+  await putTrack({ ...existing, ...patch });
+};
+
+export const deleteTrack = async (id: string): Promise<void> => {
+  await runRequest(TRACKS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const createTrackFromFile = (file: File): StoredTrack => ({
+  id: crypto.randomUUID(),
+  file,
+  name: file.name,
+  type: file.type.startsWith('video') ? 'video' : 'audio',
+  size: file.size,
+  addedAt: Date.now(),
+});
+
+// --- Settings (session, background, ...) ---
+
+export const getSetting = <T>(key: string): Promise<T | undefined> =>
+  runRequest<T | undefined>(SETTINGS_STORE, 'readonly', store => store.get(key));
+
+export const putSetting = async <T>(key: string, value: T): Promise<void> => {
+  await runRequest(SETTINGS_STORE, 'readwrite', store => store.put(value, key));
+};
+
+export const getSession = () => getSetting<LibrarySession>(SESSION_KEY);
+export const saveSession = (session: LibrarySession) => putSetting(SESSION_KEY, session);
+
+// --- Storage Quota ---
+
+export interface StorageUsage {
+  usage: number; // bytes used by this origin
+  quota: number; // bytes available to this origin
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Ask the browser not to evict the library under storage pressure
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
@@ -0,0 +1,96 @@
+// Shared playback clock for the radio's <audio> element.
+// `timeupdate` only fires ~4 times a second, so while playing the clock is read on every
+// animation frame instead, and extrapolated in browsers whose currentTime moves in coarse steps.
+// Only the components that show time (lyrics, progress line...) subscribe, see hooks/usePlaybackTime.
+
+// Never extrapolate further than this past the element's own reading
+const MAX_EXTRAPOLATION = 0.5;
+// Small backwards corrections while playing are absorbed rather than shown as a jump back
+const MAX_HELD_DRIFT = 0.15;
+
+const listeners = new Set<() => void>();
+let element: HTMLMediaElement | null = null;
+let time = 0;
+let anchor = { mediaTime: 0, at: 0 };
+let frameId: number | null = null;
+
+const readTime = (): number => {
+  if (!element) return 0;
+  const mediaTime = element.currentTime;
+  const now = performance.now();
+  if (element.paused || element.seeking) {
+    anchor = { mediaTime, at: now };
+    return mediaTime;
+  }
+
+  let next = mediaTime;
+  if (mediaTime !== anchor.mediaTime) {
+    anchor = { mediaTime, at: now };
+  } else {
+    // The element's clock hasn't moved since the last frame: carry on at the playback rate
+    const extrapolated = mediaTime + ((now - anchor.at) / 1000) * element.playbackRate;
+    const limit = isFinite(element.duration) ? element.duration : Infinity;
+    next = Math.min(extrapolated, mediaTime + MAX_EXTRAPOLATION, limit);
+  }
+
+  // A fresh coarse reading can land just behind what was already shown; hold until the clock catches up
+  const isSmallStepBack = next < time && time - next < MAX_HELD_DRIFT;
+  return isSmallStepBack ? time : next;
+};
+
+const update = () => {
+  const next = readTime();
+  if (next === time) return;
+  time = next;
+  listeners.forEach(listener => listener());
+};
+
+const loop = () => {
+  update();
+  frameId = requestAnimationFrame(loop);
+};
+
+const start = () => {
+  if (frameId === null) frameId = requestAnimationFrame(loop);
+};
+
+const stop = () => {
+  if (frameId !== null) cancelAnimationFrame(frameId);
+  frameId = null;
+  update();
+};
+
+const PLAY_EVENTS = ['play', 'playing'];
+const STOP_EVENTS = ['pause', 'ended', 'emptied', 'waiting'];
+// One-off refreshes while not ticking (seeks while paused, a new source...)
+const SYNC_EVENTS = ['seeking', 'seeked', 'timeupdate', 'loadedmetadata', 'ratechange'];
+
+// Drive the clock from `media`; returns a function that detaches it again
+export const attachPlaybackClock = (media: HTMLMediaElement): (() => void) => {
+  if (element) detach(element);
+  element = media;
+  PLAY_EVENTS.forEach(type => media.addEventListener(type, start));
+  STOP_EVENTS.forEach(type => media.addEventListener(type, stop));
+  SYNC_EVENTS.forEach(type => media.addEventListener(type, update));
+  if (!media.paused) start();
+  update();
+  return () => detach(media);
+};
+
+const detach = (media: HTMLMediaElement) => {
+  PLAY_EVENTS.forEach(type => media.removeEventListener(type, start));
+  STOP_EVENTS.forEach(type => media.removeEventListener(type, stop));
+  SYNC_EVENTS.forEach(type => media.removeEventListener(type, update));
+  if (element !== media) return;
+  element = null;
+  if (frameId !== null) cancelAnimationFrame(frameId);
+  frameId = null;
+  update();
+};
+
+export const getPlaybackTime = (): number => time;
+
+export const subscribePlaybackTime = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
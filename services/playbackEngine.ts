@@ -0,0 +1,300 @@
+// Two-deck playback engine for the radio.
+// While one deck plays, the next track waits already loaded on the other. Near the end of the
+// track the engine starts the other deck itself, either gaplessly or with an equal-power
+// crossfade, instead of waiting for `ended` and loading the next file from scratch.
+//
+//   deck A: <audio> -> track gain -> fader \
+//                                           -> output bus (see audioGraph)
+//   deck B: <audio> -> track gain -> fader /
+//
+// The deck elements live here rather than in the React tree so a hand-over never remounts anything;
+// components follow whichever deck is active through subscribeDecks / getActiveDeck.
+//
+// The A-B repeat lives here too: it needs the same precise timing, and it holds the hand-over back.
+
+import { LoopRegion } from '../types';
+import { connectMediaElement, rampGain } from './audioGraph';
+import { isRamping } from './tapeTransport';
+
+interface Deck {
+  element: HTMLAudioElement;
+  url: string | null;
+}
+
+export const MAX_CROSSFADE = 12;
+
+// Gapless hand-over: the next deck starts this much early to cover play()'s start-up latency
+const GAPLESS_LEAD = 0.02;
+// `timeupdate` is too coarse to start a deck on time, so the hand-over is put on a timer once this close
+const SCHEDULE_AHEAD = 1;
+// Points in the equal-power fade curves
+const CURVE_STEPS = 64;
+
+let decks: [Deck, Deck] | null = null;
+let activeIndex = 0;
+let crossfade = 0;
+let handOverTimer: ReturnType<typeof setTimeout> | null = null;
+let loopRegion: LoopRegion | null = null;
+let loopTimer: ReturnType<typeof setTimeout> | null = null;
+// Outgoing deck of a crossfade still in progress
+let fading: { deck: Deck; timer: ReturnType<typeof setTimeout> } | null = null;
+// Preload asked for while its deck was still fading out
+let pendingPreload: { url: string | null; level: number } | null = null;
+
+const deckListeners = new Set<() => void>();
+const handOverListeners = new Set<() => void>();
+
+const getDecks = (): [Deck, Deck] => {
+  if (decks) return decks;
+  const create = (): Deck => {
+    const element = new Audio();
+    element.preload = 'auto';
+    return { element, url: null };
+  };
+  decks = [create(), create()];
+  decks.forEach(deck => {
+    ['timeupdate', 'play'].forEach(type => deck.element.addEventListener(type, () => {
+      scheduleHandOver(deck);
+      scheduleLoop(deck);
+    }));
+    // Pausing or seeking mid-crossfade settles it at once; the timers are re-armed by the next timeupdate.
+    // The tape transport's own start / stop ramps change the rate every frame and don't count.
+    ['pause', 'seeking', 'ratechange'].forEach(type => deck.element.addEventListener(type, (e) => {
+      if (deck !== activeDeck()) return;
+      if (e.type === 'ratechange' && isRamping(deck.element)) return;
+      cancelHandOver();
+      cancelLoop();
+      finishFade();
+    }));
+  });
+  return decks;
+};
+
+const activeDeck = () => getDecks()[activeIndex];
+const idleDeck = () => getDecks()[1 - activeIndex];
+
+const notify = (listeners: Set<() => void>) => listeners.forEach(listener => listener());
+
+const setSource = (deck: Deck, url: string | null) => {
+  if (deck.url === url) return;
+  deck.url = url;
+  if (url) {
+    deck.element.src = url;
+  } else {
+    deck.element.removeAttribute('src');
+    deck.element.load();
+  }
+};
+
+const setLevel = (deck: Deck, level: number) => {
+  const chain = connectMediaElement(deck.element);
+  if (chain) {
+    deck.element.volume = 1;
+    rampGain(chain.trackGain, level);
+  } else {
+    // No Web Audio: the element volume can only attenuate
+    deck.element.volume = Math.min(1, level);
+  }
+};
+
+const resetFader = (deck: Deck) => {
+  const chain = connectMediaElement(deck.element);
+  if (!chain) return;
+  const { gain } = chain.fader;
+  gain.cancelScheduledValues(chain.fader.context.currentTime);
+  gain.setValueAtTime(1, chain.fader.context.currentTime);
+};
+
+const equalPowerCurve = (fadeIn: boolean) =>
+  Float32Array.from({ length: CURVE_STEPS }, (_, i) => {
+    const x = (i / (CURVE_STEPS - 1)) * (Math.PI / 2);
+    return fadeIn ? Math.sin(x) : Math.cos(x);
+  });
+
+const fade = (deck: Deck, fadeIn: boolean, seconds: number) => {
+  const chain = connectMediaElement(deck.element);
+  if (!chain) return;
+  const { gain, context } = chain.fader;
+  gain.cancelScheduledValues(context.currentTime);
+  gain.setValueCurveAtTime(equalPowerCurve(fadeIn), context.currentTime, seconds);
+};
+
+// Ends a crossfade early (or on time): the outgoing deck stops and is free for the next preload
+const finishFade = () => {
+  if (!fading) return;
+  const { deck, timer } = fading;
+  fading = null;
+  clearTimeout(timer);
+  deck.element.pause();
+  resetFader(deck);
+  resetFader(activeDeck());
+  if (pendingPreload) {
+    const { url, level } = pendingPreload;
+    pendingPreload = null;
+    preloadNext(url, level);
+  }
+};
+
+const cancelHandOver = () => {
+  if (handOverTimer !== null) clearTimeout(handOverTimer);
+  handOverTimer = null;
+};
+
+// Seconds of the active track left to play, at the current playback rate
+const remainingTime = (deck: Deck) => {
+  const { duration, currentTime, playbackRate } = deck.element;
+  return isFinite(duration) ? (duration - currentTime) / (playbackRate || 1) : Infinity;
+};
+
+// Crossfading needs both decks routed through Web Audio, for their faders
+const crossfadeLength = () =>
+  crossfade > 0 && getDecks().every(deck => connectMediaElement(deck.element)) ? crossfade : 0;
+
+const scheduleHandOver = (deck: Deck) => {
+  if (deck !== activeDeck() || handOverTimer !== null || fading) return;
+  const { element } = deck;
+  if (element.paused || element.loop || loopRegion || !idleDeck().url) return;
+
+  const lead = crossfadeLength() || GAPLESS_LEAD;
+  const untilHandOver = remainingTime(deck) - lead;
+  if (untilHandOver > SCHEDULE_AHEAD) return;
+  handOverTimer = setTimeout(handOver, Math.max(0, untilHandOver * 1000));
+};
+
+const handOver = () => {
+  handOverTimer = null;
+  const from = activeDeck();
+  const to = idleDeck();
+  if (from.element.paused || from.element.loop || loopRegion || !to.url) return;
+
+  const length = crossfadeLength();
+  const seconds = Math.min(length, remainingTime(from), isFinite(to.element.duration) ? to.element.duration / 2 : length);
+  to.element.currentTime = 0;
+  // The next track carries on at the same speed
+  to.element.defaultPlaybackRate = from.element.defaultPlaybackRate;
+  to.element.playbackRate = from.element.defaultPlaybackRate;
+  to.element.preservesPitch = from.element.preservesPitch;
+  to.element.play().catch(e => console.warn("Could not start the next deck:", e));
+  activeIndex = 1 - activeIndex;
+
+  if (seconds > 0) {
+    fade(from, false, seconds);
+    fade(to, true, seconds);
+    fading = { deck: from, timer: setTimeout(finishFade, seconds * 1000) };
+  } else {
+    // Gapless: the outgoing deck plays out its last few milliseconds on its own
+    resetFader(to);
+  }
+
+  notify(deckListeners);
+  notify(handOverListeners);
+};
+
+const cancelLoop = () => {
+  if (loopTimer !== null) clearTimeout(loopTimer);
+  loopTimer = null;
+};
+
+// Only playback heading into the region's end loops; a seek past B just plays on
+const scheduleLoop = (deck: Deck) => {
+  if (deck !== activeDeck() || loopTimer !== null || !loopRegion) return;
+  const { element } = deck;
+  if (element.paused || element.currentTime >= loopRegion.end) return;
+
+  const untilEnd = (loopRegion.end - element.currentTime) / (element.playbackRate || 1);
+  if (untilEnd > SCHEDULE_AHEAD) return;
+  loopTimer = setTimeout(() => {
+    loopTimer = null;
+    if (!loopRegion || element.paused || deck !== activeDeck()) return;
+    element.currentTime = loopRegion.start;
+  }, untilEnd * 1000);
+};
+
+// --- Public API ---
+
+export const getActiveDeck = (): HTMLAudioElement => activeDeck().element;
+
+// Seconds left of the active track at its playback rate (Infinity while its length is unknown)
+export const getRemainingTime = (): number => remainingTime(activeDeck());
+
+// Called when the active deck changes (hand-over, or switching to a preloaded track)
+export const subscribeDecks = (listener: () => void): (() => void) => {
+  deckListeners.add(listener);
+  return () => { deckListeners.delete(listener); };
+};
+
+// Called when the engine moved on to the preloaded track by itself; the player should follow
+export const subscribeHandOver = (listener: () => void): (() => void) => {
+  handOverListeners.add(listener);
+  return () => { handOverListeners.delete(listener); };
+};
+
+// Puts `url` on the active deck. Returns true when it is already there (the engine handed over to it),
+// in which case it keeps playing untouched; otherwise the deck is loaded (or swapped in when the track
+// was preloaded) and left paused at the start.
+export const loadTrack = (url: string): boolean => {
+  cancelHandOver();
+  cancelLoop();
+  if (activeDeck().url === url) return true;
+
+  finishFade();
+  const current = activeDeck();
+  if (idleDeck().url === url) {
+    current.element.pause();
+    activeIndex = 1 - activeIndex;
+    const next = activeDeck();
+    next.element.currentTime = 0;
+    resetFader(next);
+    notify(deckListeners);
+  } else {
+    current.element.pause();
+    resetFader(current);
+    setSource(current, url);
+  }
+  return false;
+};
+
+// Loads the track that follows on the idle deck at its own output level, or frees the deck (null)
+export const preloadNext = (url: string | null, level: number) => {
+  const deck = idleDeck();
+  if (fading && fading.deck === deck) {
+    pendingPreload = { url, level };
+    return;
+  }
+  if (deck.url !== url) {
+    deck.element.pause();
+    setSource(deck, url);
+  }
+  if (url) setLevel(deck, level);
+};
+
+// Output level (volume x trim) of the active deck
+export const setDeckLevel = (level: number) => setLevel(activeDeck(), level);
+
+export const setCrossfade = (seconds: number) => {
+  crossfade = Math.min(MAX_CROSSFADE, Math.max(0, seconds));
+};
+
+// A-B repeat on the active deck, or null to play through
+export const setLoopRegion = (region: LoopRegion | null) => {
+  loopRegion = region;
+  cancelLoop();
+  if (region) {
+    cancelHandOver();
+    scheduleLoop(activeDeck());
+  } else {
+    scheduleHandOver(activeDeck());
+  }
+};
+
+// Silences and empties both decks, e.g. when a video takes over or the playlist is cleared
+export const stopDecks = () => {
+  cancelHandOver();
+  cancelLoop();
+  finishFade();
+  pendingPreload = null;
+  getDecks().forEach(deck => {
+    deck.element.pause();
+    setSource(deck, null);
+  });
+};
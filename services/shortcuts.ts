@@ -0,0 +1,111 @@
+// Central keyboard shortcut registry.
+// Components register the bindings they own (see hooks/useShortcuts); a single window
+// listener dispatches key presses and the help overlay lists whatever is registered.
+
+export type ShortcutGroup = 'Lecture' | 'Volume' | 'Affichage';
+
+export interface Shortcut {
+  id: string;
+  keys: string[]; // e.g. 'Space', 'ArrowLeft', 'Shift+ArrowRight', 'm', '?'
+  label: string;
+  group: ShortcutGroup;
+  handler: (e: KeyboardEvent) => void;
+}
+
+const registry = new Map<string, Shortcut>();
+const listeners = new Set<() => void>();
+let snapshot: Shortcut[] = [];
+let isListening = false;
+
+// Shift only counts as a modifier for named keys and letters; '?' already implies it
+export const comboFromEvent = (e: KeyboardEvent): string => {
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toLowerCase() : e.key;
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.metaKey) parts.push('Meta');
+  if (e.shiftKey && (e.key.length > 1 || /^[a-z]$/i.test(e.key))) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+// Never steal keys from text entry (e.g. the lyrics textarea)
+const isTextEntry = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  const tag = target.tagName;
+  if (tag === 'TEXTAREA' || tag === 'SELECT') return true;
+  if (tag === 'INPUT') {
+    const type = (target as HTMLInputElement).type;
+    return !['button', 'checkbox', 'radio', 'range', 'file', 'submit', 'reset'].includes(type);
+  }
+  return false;
+};
+
+// Focused buttons already react to Space/Enter natively
+const isActivationKey = (e: KeyboardEvent) => {
+  if (e.key !== ' ' && e.key !== 'Enter') return false;
+  const target = e.target as HTMLElement | null;
+  return !!target && (target.tagName === 'BUTTON' || target.tagName === 'A' || target.tagName === 'LABEL');
+};
+
+// A focused slider (EQ band, crossfade, speed...) moves with these keys itself
+const SLIDER_KEYS = ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End', 'PageUp', 'PageDown'];
+const isSliderKey = (e: KeyboardEvent) =>
+  e.target instanceof HTMLInputElement && e.target.type === 'range' && SLIDER_KEYS.includes(e.key);
+
+const handleKeyDown = (e: KeyboardEvent) => {
+  if (e.defaultPrevented || e.isComposing) return;
+  if (isTextEntry(e.target) || isActivationKey(e) || isSliderKey(e)) return;
+
+  const combo = comboFromEvent(e);
+  // Most recently registered binding wins, so an open modal can take over a key
+  const matches = snapshot.filter(s => s.keys.includes(combo));
+  const shortcut = matches[matches.length - 1];
+  if (!shortcut) return;
+
+  e.preventDefault();
+  shortcut.handler(e);
+};
+
+const notify = () => {
+  snapshot = Array.from(registry.values());
+  listeners.forEach(listener => listener());
+};
+
+export const registerShortcut = (shortcut: Shortcut): (() => void) => {
+  if (!isListening) {
+    window.addEventListener('keydown', handleKeyDown);
+    isListening = true;
+  }
+  registry.set(shortcut.id, shortcut);
+  notify();
+
+  return () => {
+    if (registry.get(shortcut.id) === shortcut) {
+      registry.delete(shortcut.id);
+      notify();
+    }
+  };
+};
+
+export const getShortcuts = (): Shortcut[] => snapshot;
+
+export const subscribeShortcuts = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Human-readable key label for the help overlay
+export const formatKey = (key: string): string =>
+  key
+    .split('+')
+    .map(part => ({
+      Space: 'Espace',
+      ArrowLeft: '←',
+      ArrowRight: '→',
+      ArrowUp: '↑',
+      ArrowDown: '↓',
+      Escape: 'Échap',
+    } as Record<string, string>)[part] || (part.length === 1 ? part.toUpperCase() : part))
+    .join(' + ');
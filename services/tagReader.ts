@@ -0,0 +1,667 @@
+// In-browser reader for the metadata embedded in audio files:
+//   - ID3v2.2 / 2.3 / 2.4 (MP3, and the occasional FLAC that carries one)
+//   - FLAC metadata blocks (STREAMINFO, VORBIS_COMMENT, PICTURE)
+//   - Ogg Vorbis / Opus comment headers
+//   - MP4 / M4A `moov.udta.meta.ilst` atoms
+// Only the bytes that are needed are sliced out of the Blob, so big files stay cheap.
+
+import { LyricLine } from '../types';
+import { parseLRC, lyricsFromText } from '../utils/lyrics';
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  duration?: number; // in seconds
+  picture?: Blob;
+}
+
+// Raw frames/fields kept around for consumers that need more than the basics (e.g. embedded lyrics)
+interface RawTags {
+  format: 'id3' | 'flac' | 'ogg' | 'mp4' | 'unknown';
+  id3Frames?: Id3Frame[];
+  id3Version?: number;
+  comments?: Record<string, string[]>; // Vorbis comments, keys upper-cased
+  mp4Items?: Record<string, Uint8Array[]>; // ilst item type -> data payloads
+}
+
+interface Id3Frame {
+  id: string;
+  data: Uint8Array;
+}
+
+const ID3_HEADER_SIZE = 10;
+const OGG_HEAD_BYTES = 4 * 1024 * 1024;
+const MP3_PROBE_BYTES = 64 * 1024;
+
+// --- Byte Helpers ---
+
+const readBytes = async (blob: Blob, start: number, length: number): Promise<Uint8Array> => {
+  const end = Math.min(blob.size, start + length);
+  if (start >= end) return new Uint8Array(0);
+  return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+};
+
+// Decoded rather than spread into String.fromCharCode, which overflows the stack on large fields
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  decodeText(bytes.subarray(start, start + length), 'latin1');
+
+const u32be = (b: Uint8Array, o: number) => ((b[o] << 24) >>> 0) + (b[o + 1] << 16) + (b[o + 2] << 8) + b[o + 3];
+const u32le = (b: Uint8Array, o: number) => ((b[o + 3] << 24) >>> 0) + (b[o + 2] << 16) + (b[o + 1] << 8) + b[o];
+const u24be = (b: Uint8Array, o: number) => (b[o] << 16) + (b[o + 1] << 8) + b[o + 2];
+const syncsafe = (b: Uint8Array, o: number) => (b[o] << 21) | (b[o + 1] << 14) | (b[o + 2] << 7) | b[o + 3];
+
+const decoders: Record<string, TextDecoder> = {};
+const decodeText = (bytes: Uint8Array, encoding: string): string => {
+  decoders[encoding] = decoders[encoding] || new TextDecoder(encoding);
+  return decoders[encoding].decode(bytes);
+};
+
+const clean = (value?: string) => {
+  const trimmed = value?.replace(/\0+$/g, '').trim();
+  return trimmed ? trimmed : undefined;
+};
+
+// --- ID3v2 ---
+
+const ID3_ENCODINGS = ['iso-8859-1', 'utf-16', 'utf-16be', 'utf-8'];
+
+// Remove the 0x00 stuffed after every 0xFF by the "unsynchronisation" scheme
+const removeUnsync = (bytes: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    out.push(bytes[i]);
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return Uint8Array.from(out);
+};
+
+// Length of a null-terminated string in the given ID3 encoding (terminator is 2 bytes for UTF-16)
+const id3TerminatorEnd = (bytes: Uint8Array, start: number, encoding: number): { end: number; next: number } => {
+  const wide = encoding === 1 || encoding === 2;
+  if (!wide) {
+    const end = bytes.indexOf(0, start);
+    return end === -1 ? { end: bytes.length, next: bytes.length } : { end, next: end + 1 };
+  }
+  for (let i = start; i + 1 < bytes.length; i += 2) {
+    if (bytes[i] === 0 && bytes[i + 1] === 0) return { end: i, next: i + 2 };
+  }
+  return { end: bytes.length, next: bytes.length };
+};
+
+const decodeId3String = (bytes: Uint8Array, encoding: number) => {
+  // UTF-16 strings each carry their own byte order mark
+  if (encoding === 1 && bytes[0] === 0xfe && bytes[1] === 0xff) return decodeText(bytes, 'utf-16be');
+  return decodeText(bytes, ID3_ENCODINGS[encoding] || 'iso-8859-1');
+};
+
+const readId3Text = (data: Uint8Array): string | undefined => {
+  if (data.length < 2) return undefined;
+  // ID3v2.4 separates multiple values with nulls; show them the way players usually do
+  const text = decodeId3String(data.subarray(1), data[0]);
+  return clean(text.split('\0').filter(Boolean).join(' / '));
+};
+
+const readId3Picture = (data: Uint8Array, version: number): { type: number; blob: Blob } | null => {
+  const encoding = data[0];
+  let offset = 1;
+  let mime: string;
+  if (version === 2) {
+    // PIC: 3-character image format
+    const format = ascii(data, offset, 3).toUpperCase();
+    mime = format === 'PNG' ? 'image/png' : 'image/jpeg';
+    offset += 3;
+  } else {
+    const { end, next } = id3TerminatorEnd(data, offset, 0);
+    mime = ascii(data, offset, end - offset) || 'image/jpeg';
+    if (!mime.includes('/')) mime = `image/${mime.toLowerCase()}`;
+    offset = next;
+  }
+  const type = data[offset];
+  offset = id3TerminatorEnd(data, offset + 1, encoding).next;
+  if (offset >= data.length) return null;
+  return { type, blob: new Blob([data.slice(offset)], { type: mime }) };
+};
+
+const parseId3Frames = (tag: Uint8Array, version: number, flags: number): Id3Frame[] => {
+  let body = tag;
+  // v2.2/2.3 apply unsynchronisation to the whole tag, v2.4 per frame
+  if (flags & 0x80 && version < 4) body = removeUnsync(body);
+
+  let offset = 0;
+  if (flags & 0x40 && version >= 3) {
+    const extSize = version === 4 ? syncsafe(body, 0) : u32be(body, 0) + 4;
+    offset += extSize;
+  }
+
+  const frames: Id3Frame[] = [];
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+
+  while (offset + headerLength <= body.length) {
+    const id = ascii(body, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding reached
+
+    const size = version === 2
+      ? u24be(body, offset + 3)
+      : version === 4 ? syncsafe(body, offset + 4) : u32be(body, offset + 4);
+    const formatFlags = version === 2 ? 0 : body[offset + 9];
+    offset += headerLength;
+    if (size <= 0 || offset + size > body.length) break;
+
+    let data = body.subarray(offset, offset + size);
+    offset += size;
+
+    if (version === 4) {
+      if (formatFlags & 0x08 || formatFlags & 0x04) continue; // Compressed / encrypted: skip
+      if (formatFlags & 0x01) data = data.subarray(4); // Data length indicator
+      if (formatFlags & 0x02) data = removeUnsync(data);
+    } else if (version === 3 && formatFlags & 0xc0) {
+      continue; // Compressed / encrypted: skip
+    }
+    frames.push({ id, data });
+  }
+  return frames;
+};
+
+const readId3 = async (file: Blob): Promise<{ frames: Id3Frame[]; version: number; tagEnd: number } | null> => {
+  const header = await readBytes(file, 0, ID3_HEADER_SIZE);
+  if (header.length < ID3_HEADER_SIZE || ascii(header, 0, 3) !== 'ID3') return null;
+  const version = header[3];
+  if (version < 2 || version > 4) return null;
+  const flags = header[5];
+  const size = syncsafe(header, 6);
+  const footer = flags & 0x10 ? 10 : 0;
+  const tag = await readBytes(file, ID3_HEADER_SIZE, size);
+  return { frames: parseId3Frames(tag, version, flags), version, tagEnd: ID3_HEADER_SIZE + size + footer };
+};
+
+// Frame ids per field, v2.3/2.4 first then v2.2
+const ID3_FIELDS = {
+  title: ['TIT2', 'TT2'],
+  artist: ['TPE1', 'TP1', 'TPE2', 'TP2'],
+  album: ['TALB', 'TAL'],
+  length: ['TLEN', 'TLE'],
+  picture: ['APIC', 'PIC'],
+};
+
+const id3ToTags = (frames: Id3Frame[], version: number): AudioTags => {
+  const text = (ids: string[]) => {
+    for (const id of ids) {
+      const frame = frames.find(f => f.id === id);
+      const value = frame && readId3Text(frame.data);
+      if (value) return value;
+    }
+    return undefined;
+  };
+
+  const tags: AudioTags = {
+    title: text(ID3_FIELDS.title),
+    artist: text(ID3_FIELDS.artist),
+    album: text(ID3_FIELDS.album),
+  };
+
+  const lengthMs = Number(text(ID3_FIELDS.length));
+  if (lengthMs > 0) tags.duration = lengthMs / 1000;
+
+  // Prefer the front cover (type 3), otherwise whatever picture comes first
+  const pictures = frames
+    .filter(f => ID3_FIELDS.picture.includes(f.id))
+    .map(f => readId3Picture(f.data, version))
+    .filter((p): p is { type: number; blob: Blob } => !!p);
+  const picture = pictures.find(p => p.type === 3) || pictures[0];
+  if (picture) tags.picture = picture.blob;
+
+  return tags;
+};
+
+// --- MP3 Duration (Xing/Info/VBRI header, else constant bitrate estimate) ---
+
+const MPEG_BITRATES: Record<string, number[]> = {
+  // [version-layer]: kbps by index
+  'V1L1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  'V1L2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  'V1L3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  'V2L1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  'V2L2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  'V2L3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MPEG_SAMPLE_RATES = [[44100, 48000, 32000], [22050, 24000, 16000], [11025, 12000, 8000]];
+
+const readMp3Duration = async (file: Blob, audioStart: number): Promise<number | undefined> => {
+  const bytes = await readBytes(file, audioStart, MP3_PROBE_BYTES);
+  for (let i = 0; i + 4 < bytes.length; i++) {
+    if (bytes[i] !== 0xff || (bytes[i + 1] & 0xe0) !== 0xe0) continue;
+
+    const versionBits = (bytes[i + 1] >> 3) & 0x03; // 0: 2.5, 2: 2, 3: 1
+    const layerBits = (bytes[i + 1] >> 1) & 0x03; // 1: III, 2: II, 3: I
+    const bitrateIndex = bytes[i + 2] >> 4;
+    const rateIndex = (bytes[i + 2] >> 2) & 0x03;
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) continue;
+
+    const isV1 = versionBits === 3;
+    const layer = 4 - layerBits;
+    const sampleRate = MPEG_SAMPLE_RATES[isV1 ? 0 : versionBits === 2 ? 1 : 2][rateIndex];
+    const bitrate = MPEG_BITRATES[`${isV1 ? 'V1' : 'V2'}L${layer}`][bitrateIndex] * 1000;
+    const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !isV1 ? 576 : 1152;
+    const mono = (bytes[i + 3] >> 6) === 3;
+
+    // Xing / Info (VBR or LAME CBR) header inside the first frame
+    const sideInfo = isV1 ? (mono ? 17 : 32) : (mono ? 9 : 17);
+    const xing = i + 4 + sideInfo;
+    const marker = ascii(bytes, xing, 4);
+    if ((marker === 'Xing' || marker === 'Info') && bytes[xing + 7] & 0x01) {
+      const frames = u32be(bytes, xing + 8);
+      if (frames > 0) return (frames * samplesPerFrame) / sampleRate;
+    }
+    // VBRI (Fraunhofer) header, always 32 bytes after the frame header
+    if (ascii(bytes, i + 36, 4) === 'VBRI') {
+      const frames = u32be(bytes, i + 36 + 14);
+      if (frames > 0) return (frames * samplesPerFrame) / sampleRate;
+    }
+    // Constant bitrate: size over rate
+    return ((file.size - audioStart - i) * 8) / bitrate;
+  }
+  return undefined;
+};
+
+// --- Vorbis Comments & FLAC Pictures (shared by FLAC and Ogg) ---
+
+const parseVorbisComment = (bytes: Uint8Array, offset = 0): Record<string, string[]> => {
+  const comments: Record<string, string[]> = {};
+  const vendorLength = u32le(bytes, offset);
+  offset += 4 + vendorLength;
+  const count = u32le(bytes, offset);
+  offset += 4;
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = u32le(bytes, offset);
+    offset += 4;
+    const entry = decodeText(bytes.subarray(offset, offset + length), 'utf-8');
+    offset += length;
+    const eq = entry.indexOf('=');
+    if (eq <= 0) continue;
+    const key = entry.slice(0, eq).toUpperCase();
+    (comments[key] = comments[key] || []).push(entry.slice(eq + 1));
+  }
+  return comments;
+};
+
+const parseFlacPicture = (bytes: Uint8Array): { type: number; blob: Blob } | null => {
+  if (bytes.length < 32) return null;
+  let offset = 0;
+  const type = u32be(bytes, offset);
+  offset += 4;
+  const mimeLength = u32be(bytes, offset);
+  offset += 4;
+  const mime = ascii(bytes, offset, mimeLength) || 'image/jpeg';
+  offset += mimeLength;
+  const descriptionLength = u32be(bytes, offset);
+  offset += 4 + descriptionLength + 16; // Skip description, width, height, depth, colours
+  const dataLength = u32be(bytes, offset);
+  offset += 4;
+  if (offset + dataLength > bytes.length) return null;
+  return { type, blob: new Blob([bytes.slice(offset, offset + dataLength)], { type: mime }) };
+};
+
+const base64ToBytes = (value: string): Uint8Array => {
+  const binary = atob(value.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const commentsToTags = (comments: Record<string, string[]>, pictures: { type: number; blob: Blob }[]): AudioTags => {
+  const first = (key: string) => clean(comments[key]?.[0]);
+  // Ogg files carry pictures as base64 FLAC picture blocks inside a comment
+  (comments['METADATA_BLOCK_PICTURE'] || []).forEach(value => {
+    try {
+      const picture = parseFlacPicture(base64ToBytes(value));
+      if (picture) pictures.push(picture);
+    } catch {
+      // Ignore malformed base64
+    }
+  });
+  const picture = pictures.find(p => p.type === 3) || pictures[0];
+  return {
+    title: first('TITLE'),
+    artist: first('ARTIST') || first('ALBUMARTIST'),
+    album: first('ALBUM'),
+    picture: picture?.blob,
+  };
+};
+
+// --- FLAC ---
+
+const readFlac = async (file: Blob, start: number): Promise<{ tags: AudioTags; comments: Record<string, string[]> } | null> => {
+  if (ascii(await readBytes(file, start, 4), 0, 4) !== 'fLaC') return null;
+
+  let offset = start + 4;
+  let duration: number | undefined;
+  let comments: Record<string, string[]> = {};
+  const pictures: { type: number; blob: Blob }[] = [];
+
+  for (let isLast = false; !isLast && offset < file.size;) {
+    const header = await readBytes(file, offset, 4);
+    if (header.length < 4) break;
+    isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = u24be(header, 1);
+    offset += 4;
+
+    if (type === 0) {
+      const info = await readBytes(file, offset, length);
+      const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+      const totalSamples = (info[13] & 0x0f) * 2 ** 32 + u32be(info, 14);
+      if (sampleRate > 0 && totalSamples > 0) duration = totalSamples / sampleRate;
+    } else if (type === 4) {
+      comments = parseVorbisComment(await readBytes(file, offset, length));
+    } else if (type === 6) {
+      const picture = parseFlacPicture(await readBytes(file, offset, length));
+      if (picture) pictures.push(picture);
+    }
+    offset += length;
+  }
+
+  return { tags: { ...commentsToTags(comments, pictures), duration }, comments };
+};
+
+// --- Ogg (Vorbis / Opus) ---
+
+// Reassemble the first `count` packets from the Ogg pages at the start of the file
+const readOggPackets = (bytes: Uint8Array, count: number): Uint8Array[] => {
+  const packets: Uint8Array[] = [];
+  let current: number[] = [];
+  let offset = 0;
+
+  while (packets.length < count && offset + 27 <= bytes.length && ascii(bytes, offset, 4) === 'OggS') {
+    const segments = bytes[offset + 26];
+    const table = bytes.subarray(offset + 27, offset + 27 + segments);
+    let dataOffset = offset + 27 + segments;
+    for (const lacing of table) {
+      for (let i = 0; i < lacing; i++) current.push(bytes[dataOffset + i]);
+      dataOffset += lacing;
+      // A lacing value under 255 ends the packet
+      if (lacing < 255) {
+        packets.push(Uint8Array.from(current));
+        current = [];
+        if (packets.length >= count) break;
+      }
+    }
+    offset = dataOffset;
+  }
+  return packets;
+};
+
+const readOggDuration = async (file: Blob, sampleRate: number, preSkip: number): Promise<number | undefined> => {
+  // The granule position of the last page is the total sample count
+  const tail = await readBytes(file, Math.max(0, file.size - 65536), 65536);
+  for (let i = tail.length - 27; i >= 0; i--) {
+    if (tail[i] === 0x4f && ascii(tail, i, 4) === 'OggS') {
+      const granule = u32le(tail, i + 6) + u32le(tail, i + 10) * 2 ** 32;
+      return granule > 0 ? (granule - preSkip) / sampleRate : undefined;
+    }
+  }
+  return undefined;
+};
+
+const readOgg = async (file: Blob): Promise<{ tags: AudioTags; comments: Record<string, string[]> } | null> => {
+  const head = await readBytes(file, 0, OGG_HEAD_BYTES);
+  if (ascii(head, 0, 4) !== 'OggS') return null;
+
+  const [identification, commentPacket] = readOggPackets(head, 2);
+  if (!identification || !commentPacket) return null;
+
+  let comments: Record<string, string[]> = {};
+  let sampleRate = 0;
+  let preSkip = 0;
+  if (ascii(identification, 1, 6) === 'vorbis') {
+    sampleRate = u32le(identification, 12);
+    if (ascii(commentPacket, 1, 6) === 'vorbis') comments = parseVorbisComment(commentPacket, 7);
+  } else if (ascii(identification, 0, 8) === 'OpusHead') {
+    sampleRate = 48000; // Opus granule positions are always at 48 kHz
+    preSkip = identification[10] | (identification[11] << 8);
+    if (ascii(commentPacket, 0, 8) === 'OpusTags') comments = parseVorbisComment(commentPacket, 8);
+  }
+
+  const duration = sampleRate ? await readOggDuration(file, sampleRate, preSkip) : undefined;
+  return { tags: { ...commentsToTags(comments, []), duration }, comments };
+};
+
+// --- MP4 / M4A ---
+
+interface Atom {
+  type: string;
+  start: number; // Offset of the payload
+  end: number;
+}
+
+// Walk sibling atoms between start and end, reading just their headers
+const listAtoms = async (file: Blob, start: number, end: number): Promise<Atom[]> => {
+  const atoms: Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const header = await readBytes(file, offset, 16);
+    let size = u32be(header, 0);
+    const type = ascii(header, 4, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      size = u32be(header, 8) * 2 ** 32 + u32be(header, 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+    atoms.push({ type, start: offset + headerSize, end: Math.min(end, offset + size) });
+    offset += size;
+  }
+  return atoms;
+};
+
+const listAtomsInBytes = (bytes: Uint8Array, start: number, end: number): Atom[] => {
+  const atoms: Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const size = u32be(bytes, offset);
+    if (size < 8) break;
+    atoms.push({ type: ascii(bytes, offset + 4, 4), start: offset + 8, end: Math.min(end, offset + size) });
+    offset += size;
+  }
+  return atoms;
+};
+
+const readMp4 = async (file: Blob): Promise<{ tags: AudioTags; items: Record<string, Uint8Array[]> } | null> => {
+  const probe = await readBytes(file, 4, 4);
+  if (ascii(probe, 0, 4) !== 'ftyp') return null;
+
+  const moov = (await listAtoms(file, 0, file.size)).find(a => a.type === 'moov');
+  if (!moov) return null;
+  const bytes = await readBytes(file, moov.start, moov.end - moov.start);
+  const children = listAtomsInBytes(bytes, 0, bytes.length);
+  const tags: AudioTags = {};
+
+  const mvhd = children.find(a => a.type === 'mvhd');
+  if (mvhd) {
+    const version = bytes[mvhd.start];
+    const timescale = version === 1 ? u32be(bytes, mvhd.start + 20) : u32be(bytes, mvhd.start + 12);
+    const duration = version === 1
+      ? u32be(bytes, mvhd.start + 24) * 2 ** 32 + u32be(bytes, mvhd.start + 28)
+      : u32be(bytes, mvhd.start + 16);
+    if (timescale > 0 && duration > 0) tags.duration = duration / timescale;
+  }
+
+  // moov > udta > meta (a "full" atom: 4 bytes version/flags before its children) > ilst
+  const udta = children.find(a => a.type === 'udta');
+  const meta = udta && listAtomsInBytes(bytes, udta.start, udta.end).find(a => a.type === 'meta');
+  const ilst = meta && listAtomsInBytes(bytes, meta.start + 4, meta.end).find(a => a.type === 'ilst');
+  const items: Record<string, Uint8Array[]> = {};
+  if (ilst) {
+    for (const item of listAtomsInBytes(bytes, ilst.start, ilst.end)) {
+      for (const data of listAtomsInBytes(bytes, item.start, item.end).filter(a => a.type === 'data')) {
+        // data: 1 byte version, 3 bytes type flags, 4 bytes locale, then the value
+        (items[item.type] = items[item.type] || []).push(bytes.slice(data.start, data.end));
+      }
+    }
+  }
+
+  const text = (type: string) => {
+    const payload = items[type]?.[0];
+    return payload ? clean(decodeText(payload.subarray(8), 'utf-8')) : undefined;
+  };
+  tags.title = text('©nam');
+  tags.artist = text('©ART') || text('aART');
+  tags.album = text('©alb');
+
+  const cover = items['covr']?.[0];
+  if (cover) {
+    const typeFlag = cover[3];
+    tags.picture = new Blob([cover.slice(8)], { type: typeFlag === 14 ? 'image/png' : 'image/jpeg' });
+  }
+
+  return { tags, items };
+};
+
+// --- Embedded Lyrics ---
+
+// SYLT: encoding, language, timestamp format, content type, descriptor, then (text, timestamp) pairs
+const parseSylt = (data: Uint8Array): LyricLine[] => {
+  const encoding = data[0];
+  if (data[4] !== 2) return []; // Only millisecond timestamps; MPEG frame counts need the decoder
+  let offset = id3TerminatorEnd(data, 6, encoding).next;
+
+  const entries: LyricLine[] = [];
+  while (offset < data.length) {
+    const { end, next } = id3TerminatorEnd(data, offset, encoding);
+    if (next + 4 > data.length) break;
+    entries.push({ time: u32be(data, next) / 1000, text: decodeId3String(data.subarray(offset, end), encoding) });
+    offset = next + 4;
+  }
+
+  // Karaoke-style tags store one entry per syllable, with a line break starting each new line
+  const perSyllable = entries.some(e => /^[\r\n]/.test(e.text));
+  const lines: LyricLine[] = [];
+  entries.forEach(entry => {
+    const last = lines[lines.length - 1];
+    const text = entry.text.replace(/^[\r\n]+/, '');
+    if (perSyllable && last && !/^[\r\n]/.test(entry.text)) {
+      last.text += text;
+      last.segments!.push({ time: entry.time, text });
+    } else {
+      lines.push(perSyllable
+        ? { time: entry.time, text, segments: [{ time: entry.time, text }] }
+        : { time: entry.time, text });
+    }
+  });
+  return lines
+    .map(line => ({ ...line, text: line.text.trim() }))
+    .filter(line => line.text)
+    .sort((a, b) => a.time - b.time);
+};
+
+// USLT: encoding, language, descriptor, then the whole text
+const readUslt = (data: Uint8Array): string => {
+  const encoding = data[0];
+  const { next } = id3TerminatorEnd(data, 4, encoding);
+  return decodeId3String(data.subarray(next), encoding);
+};
+
+// Synced sources win over unsynced ones: SYLT, SYNCEDLYRICS, then USLT / LYRICS / ©lyr
+const lyricsFromRaw = (raw: RawTags, duration?: number): LyricLine[] => {
+  const frames = raw.id3Frames || [];
+  for (const frame of frames.filter(f => f.id === 'SYLT' || f.id === 'SLT')) {
+    const lines = parseSylt(frame.data);
+    if (lines.length > 0) return lines;
+  }
+
+  const comments = raw.comments || {};
+  for (const text of comments['SYNCEDLYRICS'] || []) {
+    const lines = parseLRC(text).lyrics;
+    if (lines.length > 0) return lines;
+  }
+
+  const plain = [
+    ...frames.filter(f => f.id === 'USLT' || f.id === 'ULT').map(f => readUslt(f.data)),
+    ...(comments['LYRICS'] || []),
+    ...(comments['UNSYNCEDLYRICS'] || []),
+    ...(raw.mp4Items?.['©lyr'] || []).map(payload => decodeText(payload.subarray(8), 'utf-8')),
+  ];
+  for (const text of plain) {
+    const lines = lyricsFromText(text, duration);
+    if (lines.length > 0) return lines;
+  }
+  return [];
+};
+
+// --- Fallback Duration ---
+
+// Let the browser decode the header when the container didn't tell us
+const probeDuration = (file: Blob): Promise<number | undefined> =>
+  new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const audio = document.createElement('audio');
+    const finish = (value?: number) => {
+      clearTimeout(timeoutId);
+      audio.removeAttribute('src');
+      audio.load();
+      URL.revokeObjectURL(url);
+      resolve(value && isFinite(value) ? value : undefined);
+    };
+    const timeoutId = setTimeout(() => finish(), 5000);
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(audio.duration);
+    audio.onerror = () => finish();
+    audio.src = url;
+  });
+
+// --- Public API ---
+
+const readRawTags = async (file: Blob): Promise<{ tags: AudioTags; raw: RawTags }> => {
+  try {
+    const id3 = await readId3(file);
+    const audioStart = id3?.tagEnd || 0;
+
+    const flac = await readFlac(file, audioStart);
+    if (flac) {
+      // Prefer the native FLAC tags but fall back to a leading ID3 tag field by field
+      const fromId3 = id3 ? id3ToTags(id3.frames, id3.version) : {};
+      return {
+        tags: { ...fromId3, ...stripEmpty(flac.tags) },
+        raw: { format: 'flac', comments: flac.comments, id3Frames: id3?.frames, id3Version: id3?.version }
+      };
+    }
+
+    if (id3) {
+      const tags = id3ToTags(id3.frames, id3.version);
+      if (!tags.duration) tags.duration = await readMp3Duration(file, audioStart);
+      return { tags, raw: { format: 'id3', id3Frames: id3.frames, id3Version: id3.version } };
+    }
+
+    const ogg = await readOgg(file);
+    if (ogg) return { tags: ogg.tags, raw: { format: 'ogg', comments: ogg.comments } };
+
+    const mp4 = await readMp4(file);
+    if (mp4) return { tags: mp4.tags, raw: { format: 'mp4', mp4Items: mp4.items } };
+
+    // Untagged MP3s still get a duration from their first frame
+    if (file.type === 'audio/mpeg' || file.type === 'audio/mp3') {
+      return { tags: { duration: await readMp3Duration(file, 0) }, raw: { format: 'unknown' } };
+    }
+  } catch (e) {
+    console.warn("Could not read audio tags:", e);
+  }
+  return { tags: {}, raw: { format: 'unknown' } };
+};
+
+const stripEmpty = (tags: AudioTags): AudioTags =>
+  Object.fromEntries(Object.entries(tags).filter(([, v]) => v !== undefined)) as AudioTags;
+
+// Lyrics carried by the file itself, or an empty list when there are none
+export const readEmbeddedLyrics = async (file: Blob, duration?: number): Promise<LyricLine[]> => {
+  const { tags, raw } = await readRawTags(file);
+  return lyricsFromRaw(raw, duration || tags.duration);
+};
+
+export const readTags = async (file: Blob): Promise<AudioTags> => {
+  const { tags } = await readRawTags(file);
+  if (!tags.duration) tags.duration = await probeDuration(file);
+  return tags;
+};
@@ -0,0 +1,238 @@
+// Cassette transport simulation.
+//
+// - Start / stop: the deck's playbackRate is ramped with preservesPitch off, so pitch follows the
+//   tape speed like a capstan motor spinning up or winding down.
+// - Speed: the rate the tape settles at once running (0.5x - 2x practice speeds), with or without
+//   pitch preservation. Ramps start from and return to it.
+// - Wow & flutter: a short delay line on the bus whose delay time is wobbled by two slow LFOs,
+//   which bends the pitch without touching playbackRate.
+// - Hiss: looped, band-limited noise mixed in at the transport speed (silent while stopped).
+//
+//   input -+-> dry ------------------------------------+-> output
+//          \-> delay (wow + flutter LFOs) -> wobble ---/
+//   noise -> highpass -> lowpass -> hiss --------------/
+
+// Start: rate climbs from here to full speed
+const START_RATE = 0.3;
+const START_MS = 450;
+// Stop: the tape winds down to this before the deck actually pauses
+const STOP_RATE = 0.1;
+const STOP_MS = 650;
+// Browsers refuse rates much below this
+const MIN_RATE = 0.0625;
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+export const PLAYBACK_RATE_STEP = 0.05;
+
+const WOW = { frequency: 0.55, depth: 0.0008 }; // ~0.3% slow pitch drift
+const FLUTTER = { frequency: 6.5, depth: 0.00005 }; // ~0.2% fast warble
+const WOBBLE_BASE_DELAY = 0.005;
+const HISS_LEVEL = 0.006;
+const SWITCH_SECONDS = 0.08;
+
+interface TapeStage {
+  dry: GainNode;
+  wobble: GainNode;
+  hiss: GainNode;
+}
+
+let stage: TapeStage | null = null;
+let wowFlutter = false;
+let hissEnabled = false;
+let element: HTMLMediaElement | null = null;
+let speed = { rate: 1, preservesPitch: true };
+// Bumped by every ramp, so an interrupted one (play pressed mid-stop...) leaves the deck alone
+let rampId = 0;
+// Deck a ramp is currently driving; speed changes reach it when the ramp ends
+let ramping: HTMLMediaElement | null = null;
+// Last deck ramped and when that ended, see isRamping
+let lastRamp = { media: null as HTMLMediaElement | null, endedAt: 0 };
+
+// --- Speed ---
+
+// Puts `media` at the chosen speed. defaultPlaybackRate too, as loading a new source resets to it.
+const runAtSpeed = (media: HTMLMediaElement) => {
+  media.defaultPlaybackRate = speed.rate;
+  media.playbackRate = speed.rate;
+  media.preservesPitch = speed.preservesPitch;
+};
+
+// Clamped to the practice range and rounded, so repeated steps don't drift
+export const stepPlaybackRate = (rate: number, delta: number) =>
+  Math.round(Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate + delta)) * 100) / 100;
+
+// 'ratechange' is dispatched asynchronously, so the ramp's last events can arrive just after it ended
+const RAMP_EVENT_GRACE_MS = 250;
+
+// True while a start / stop ramp is driving `media`'s playbackRate (or has only just finished)
+export const isRamping = (media: HTMLMediaElement): boolean =>
+  ramping === media || (lastRamp.media === media && performance.now() - lastRamp.endedAt < RAMP_EVENT_GRACE_MS);
+
+// 0 when stopped, 1 at normal speed; the reels turn at this rate
+export const getTransportSpeed = (): number => (element && !element.paused ? element.playbackRate : 0);
+
+const applyHiss = (seconds = SWITCH_SECONDS) => {
+  if (!stage) return;
+  const level = hissEnabled ? HISS_LEVEL * Math.min(1, getTransportSpeed()) : 0;
+  stage.hiss.gain.setTargetAtTime(level, stage.hiss.context.currentTime, seconds / 3);
+};
+
+const applyWobble = (seconds = SWITCH_SECONDS) => {
+  if (!stage) return;
+  const now = stage.dry.context.currentTime;
+  stage.dry.gain.setTargetAtTime(wowFlutter ? 0 : 1, now, seconds / 3);
+  stage.wobble.gain.setTargetAtTime(wowFlutter ? 1 : 0, now, seconds / 3);
+};
+
+const easeOut = (t: number) => 1 - (1 - t) * (1 - t);
+const easeIn = (t: number) => t * t;
+
+// Browsers stop animation frames in hidden tabs; this keeps a ramp moving (coarsely) anyway
+const FALLBACK_STEP_MS = 50;
+
+// Moves playbackRate from `from` to `to`, by elapsed time; resolves false if another ramp took over meanwhile.
+// In a hidden tab nobody sees or hears the ramp, so it jumps straight to `to`.
+const rampRate = (media: HTMLMediaElement, from: number, to: number, ms: number, ease: (t: number) => number) =>
+  new Promise<boolean>(resolve => {
+    const id = ++rampId;
+    const start = performance.now();
+    ramping = media;
+    media.preservesPitch = false;
+    let frame = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const step = () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+      if (id !== rampId) return resolve(false);
+      const t = document.hidden ? 1 : Math.min(1, (performance.now() - start) / ms);
+      media.playbackRate = Math.max(MIN_RATE, from + (to - from) * ease(t));
+      applyHiss(0.02);
+      if (t < 1) {
+        frame = requestAnimationFrame(step);
+        timer = setTimeout(step, FALLBACK_STEP_MS);
+        return;
+      }
+      ramping = null;
+      lastRamp = { media, endedAt: performance.now() };
+      resolve(true);
+    };
+    step();
+  });
+
+// Plays `media`, spinning the tape up to speed
+export const startTransport = async (media: HTMLMediaElement): Promise<void> => {
+  const { rate } = speed;
+  // Restarting mid-stop picks up from wherever the tape has slowed to; a hidden tab skips the spin-up
+  const from = document.hidden ? rate : media.paused ? START_RATE * rate : media.playbackRate;
+  rampId++;
+  media.playbackRate = from;
+  media.preservesPitch = false;
+  await media.play();
+  const ms = Math.max(1, (START_MS * (rate - from)) / (rate - START_RATE * rate));
+  if (await rampRate(media, from, rate, ms, easeOut)) runAtSpeed(media);
+};
+
+// Winds the tape down, then pauses `media`
+export const stopTransport = async (media: HTMLMediaElement): Promise<void> => {
+  if (media.paused) return;
+  if (!(await rampRate(media, media.playbackRate, STOP_RATE * speed.rate, STOP_MS, easeIn))) return;
+  media.pause();
+  runAtSpeed(media);
+};
+
+// Drops any ramp in progress and puts `media` back at the chosen speed, e.g. before a new track starts
+export const resetTransport = (media: HTMLMediaElement) => {
+  rampId++;
+  ramping = null;
+  runAtSpeed(media);
+};
+
+export const applyPlaybackSpeed = (rate: number, preservesPitch: boolean) => {
+  speed = { rate: stepPlaybackRate(rate, 0), preservesPitch };
+  if (element && element !== ramping) runAtSpeed(element);
+};
+
+// Follow `media` (the active deck) so hiss starts and stops with it; returns a function that detaches
+export const attachTapeTransport = (media: HTMLMediaElement): (() => void) => {
+  element = media;
+  if (media !== ramping) runAtSpeed(media);
+  const sync = () => applyHiss();
+  const events = ['play', 'pause', 'ended', 'ratechange', 'emptied'];
+  events.forEach(type => media.addEventListener(type, sync));
+  sync();
+  return () => {
+    events.forEach(type => media.removeEventListener(type, sync));
+    if (element === media) element = null;
+    applyHiss();
+  };
+};
+
+// --- Audio stage ---
+
+const createNoise = (ctx: BaseAudioContext, seconds = 2) => {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate * seconds, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.loop = true;
+  return source;
+};
+
+const createLfo = (ctx: BaseAudioContext, { frequency, depth }: { frequency: number; depth: number }, target: AudioParam) => {
+  const lfo = ctx.createOscillator();
+  lfo.frequency.value = frequency;
+  const amount = ctx.createGain();
+  amount.gain.value = depth;
+  lfo.connect(amount);
+  amount.connect(target);
+  lfo.start();
+};
+
+// Builds the stage once and wires `input` through it to `output`
+export const connectTapeStage = (input: AudioNode, output: AudioNode) => {
+  const ctx = input.context;
+
+  const dry = ctx.createGain();
+  input.connect(dry);
+  dry.connect(output);
+
+  const delay = ctx.createDelay(0.05);
+  delay.delayTime.value = WOBBLE_BASE_DELAY;
+  createLfo(ctx, WOW, delay.delayTime);
+  createLfo(ctx, FLUTTER, delay.delayTime);
+  const wobble = ctx.createGain();
+  input.connect(delay);
+  delay.connect(wobble);
+  wobble.connect(output);
+
+  const noise = createNoise(ctx);
+  const lowCut = ctx.createBiquadFilter();
+  lowCut.type = 'highpass';
+  lowCut.frequency.value = 1500;
+  const highCut = ctx.createBiquadFilter();
+  highCut.type = 'lowpass';
+  highCut.frequency.value = 12000;
+  const hiss = ctx.createGain();
+  hiss.gain.value = 0;
+  noise.connect(lowCut);
+  lowCut.connect(highCut);
+  highCut.connect(hiss);
+  hiss.connect(output);
+  noise.start();
+
+  stage = { dry, wobble, hiss };
+  applyWobble(0);
+  applyHiss(0);
+};
+
+export const applyWowFlutter = (enabled: boolean) => {
+  wowFlutter = enabled;
+  applyWobble();
+};
+
+export const applyTapeHiss = (enabled: boolean) => {
+  hissEnabled = enabled;
+  applyHiss();
+};
@@ -5,10 +5,58 @@ export enum Season {
   Winter = 'Winter'
 }
 
-export interface MediaData {
+// Details read from a file's embedded tags (ID3, Vorbis comments, MP4 atoms)
+export interface TrackInfo {
+  title?: string;
+  artist?: string;
+  album?: string;
+  duration?: number; // in seconds
+}
+
+export interface MediaData extends TrackInfo {
+  id: string; // Key of the stored track in the media library
   url: string;
   type: 'audio' | 'video';
   name: string;
+  coverUrl?: string;
+  lyrics?: LyricLine[];
+  gainDb?: number; // Per-track gain trim
+  lyricsOffset?: number; // Per-track lyrics offset in seconds, on top of the global one
+  bookmarks?: Bookmark[];
+  loopRegion?: LoopRegion; // A-B repeat, kept with the track
+}
+
+// Named position in a track, drawn on the progress line
+export interface Bookmark {
+  id: string;
+  time: number; // in seconds
+  label: string;
+}
+
+// A-B repeat: reaching `end` jumps back to `start` (seconds)
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+// Which side of bilingual lyrics the overlay shows
+export type LyricsLanguage = 'original' | 'translation' | 'both';
+
+// When the sleep timer pauses: after so many minutes, or at the end of the track / playlist
+export type SleepTimerMode = 15 | 30 | 60 | 'track' | 'playlist';
+
+// What the radio's cassette window shows
+export type CassetteView = 'reels' | 'cover' | 'visualizer';
+
+// Normalized (0-1) energy of the playing audio, read once per animation frame
+export interface AudioBands {
+  bass: number;
+  mid: number;
+  treble: number;
+  loudness: number;
+  transient: boolean; // True on the frame a beat / onset is detected
 }
 
 export interface Particle {
@@ -29,4 +77,37 @@ export interface Particle {
 export interface LyricLine {
   time: number; // in seconds
   text: string;
-}
\ No newline at end of file
+  end?: number; // in seconds, when the source says when the line stops (subtitle cues, LRC blank lines)
+  segments?: LyricSegment[]; // Word / syllable timing (Enhanced LRC), when the source has it
+  translation?: string; // Secondary line shown under the original (bilingual LRC, attached translation)
+}
+
+export interface LyricSegment {
+  time: number; // in seconds, when this word starts
+  end?: number; // Explicit end (e.g. a trailing <mm:ss.xx>), otherwise the next segment's start
+  text: string; // Including its surrounding spaces, so segments join back into the line text
+}
+
+// --- Media Library (IndexedDB) ---
+
+export interface StoredTrack extends TrackInfo {
+  id: string;
+  file: Blob;
+  name: string;
+  type: 'audio' | 'video';
+  size: number; // in bytes
+  addedAt: number;
+  cover?: Blob;
+  lyrics?: LyricLine[];
+  gainDb?: number;
+  lyricsOffset?: number;
+  bookmarks?: Bookmark[];
+  loopRegion?: LoopRegion;
+  tagsRead?: boolean; // Embedded tags have been scanned (older entries predate the tag reader)
+}
+
+export interface LibrarySession {
+  playlist: string[]; // Track ids in playback order
+  currentIndex: number;
+  position: number; // in seconds, for the current track
+}
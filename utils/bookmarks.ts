@@ -0,0 +1,22 @@
+import { Bookmark, LoopRegion } from '../types';
+
+// Shorter A-B regions would just stutter
+export const MIN_LOOP_LENGTH = 0.5;
+
+// Kept in time order so the list reads like the track
+export const addBookmark = (bookmarks: Bookmark[], time: number): Bookmark[] =>
+  [...bookmarks, { id: crypto.randomUUID(), time, label: `Repère ${bookmarks.length + 1}` }]
+    .sort((a, b) => a.time - b.time);
+
+export const renameBookmark = (bookmarks: Bookmark[], id: string, label: string): Bookmark[] =>
+  bookmarks.map(bookmark => (bookmark.id === id ? { ...bookmark, label } : bookmark));
+
+export const removeBookmark = (bookmarks: Bookmark[], id: string): Bookmark[] =>
+  bookmarks.filter(bookmark => bookmark.id !== id);
+
+// A and B may be set in either order; null when they are too close to loop
+export const makeLoopRegion = (a: number, b: number): LoopRegion | null => {
+  const start = Math.min(a, b);
+  const end = Math.max(a, b);
+  return end - start >= MIN_LOOP_LENGTH ? { start, end } : null;
+};
@@ -0,0 +1,372 @@
+import { LyricLine, LyricSegment, LyricsLanguage } from '../types';
+
+// --- LRC ---
+
+export interface LrcMetadata {
+  title?: string;   // [ti:]
+  artist?: string;  // [ar:]
+  album?: string;   // [al:]
+  author?: string;  // [au:] lyricist
+  creator?: string; // [by:] who made the LRC file
+  length?: number;  // [length:] in seconds
+  offset: number;   // [offset:] in milliseconds, positive shows lyrics earlier
+  tags: Record<string, string>; // Every ID tag as written, including unknown ones
+}
+
+export interface LyricsWarning {
+  line: number; // 1-based line number in the source text
+  message: string;
+}
+
+export interface ParsedLrc {
+  lyrics: LyricLine[];
+  metadata: LrcMetadata;
+  warnings: LyricsWarning[];
+}
+
+// [mm:ss], [mm:ss.x], [mm:ss.xx], [mm:ss.xxx], [mm:ss:xx], [h:mm:ss.xx] and [h:mm:ss:xx];
+// minutes may run past two digits for long recordings
+const TIMESTAMP = /^\[(\d+(?::\d+){1,3})(?:\.(\d+))?\]/;
+// Enhanced (A2) LRC word timestamps inside the text: <mm:ss.xx>word
+const WORD_TIMESTAMP = /<(\d+(?::\d+){1,3})(?:\.(\d+))?>/g;
+const ID_TAG = /^\[([a-zA-Z#][\w#-]*)\s*:(.*)\]\s*$/;
+
+interface Timestamp {
+  time: number;
+  // Three groups with no '.' fraction: read as mm:ss:xx, though it could be meant as h:mm:ss
+  ambiguous: boolean;
+}
+
+// Null when the groups don't make a valid time (seconds past 59, an over-long fraction...)
+const parseTimestamp = (match: RegExpMatchArray): Timestamp | null => {
+  const groups = match[1].split(':');
+  let dot = match[2];
+  const ambiguous = groups.length === 3 && dot === undefined;
+  // Three groups are h:mm:ss only with a '.' fraction; otherwise the last one is the fraction (mm:ss:xx)
+  if (groups.length === 4 || (groups.length === 3 && dot === undefined)) {
+    if (dot !== undefined) return null;
+    dot = groups.pop();
+  }
+  const [hours, minutes, seconds] = groups.length === 3 ? groups : ['0', ...groups];
+  if (seconds.length > 2 || parseInt(seconds, 10) >= 60 || (dot !== undefined && dot.length > 3)) return null;
+  // The fraction is a decimal: ".5" is 500ms, ".05" is 50ms, ".005" is 5ms
+  const fraction = dot ? parseInt(dot, 10) / Math.pow(10, dot.length) : 0;
+  return {
+    time: parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + fraction,
+    ambiguous
+  };
+};
+
+// "mm:ss", "mm:ss.xx" or plain seconds, as used by [length:]
+const parseLength = (value: string): number | undefined => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d+)(?:[.:](\d{1,3}))?$/);
+  if (!match) return undefined;
+  const fraction = match[3] ? parseInt(match[3], 10) / Math.pow(10, match[3].length) : 0;
+  return match[1] !== undefined
+    ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) + fraction
+    : parseInt(match[2], 10) + fraction;
+};
+
+// Splits "<00:12.00>Some <00:12.50>words <00:13.20>" into timed segments.
+// Text before the first word timestamp starts with the line; a trailing timestamp ends the last word.
+const parseSegments = (text: string, lineTime: number): LyricSegment[] | undefined => {
+  const matches = [...text.matchAll(WORD_TIMESTAMP)];
+  if (matches.length === 0) return undefined;
+
+  const segments: LyricSegment[] = [];
+  const leading = text.slice(0, matches[0].index);
+  if (leading.trim()) segments.push({ time: lineTime, text: leading });
+
+  matches.forEach((match, i) => {
+    const start = match.index! + match[0].length;
+    const end = i + 1 < matches.length ? matches[i + 1].index! : text.length;
+    const time = parseTimestamp(match)?.time ?? lineTime;
+    const word = text.slice(start, end);
+    if (word) {
+      segments.push({ time, text: word });
+    } else if (segments.length > 0 && i === matches.length - 1) {
+      segments[segments.length - 1].end = time;
+    }
+  });
+  return segments.length > 0 ? segments : undefined;
+};
+
+const METADATA_KEYS: Record<string, keyof Omit<LrcMetadata, 'offset' | 'tags' | 'length'>> = {
+  ti: 'title',
+  ar: 'artist',
+  al: 'album',
+  au: 'author',
+  by: 'creator',
+};
+
+export const parseLRC = (lrcString: string): ParsedLrc => {
+  const lines = lrcString.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const entries: (LyricLine & { order: number })[] = [];
+  const blankTimes: number[] = [];
+  const metadata: LrcMetadata = { offset: 0, tags: {} };
+  const warnings: LyricsWarning[] = [];
+
+  // Reported once per file, not on every line
+  let warnedAmbiguous = false;
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+    if (!line) return;
+
+    // A line may start with several timestamps sharing the same text
+    const times: number[] = [];
+    let rest = line;
+    let match: RegExpMatchArray | null;
+    while ((match = rest.match(TIMESTAMP))) {
+      const timestamp = parseTimestamp(match);
+      if (!timestamp) {
+        warnings.push({ line: lineNumber, message: `Invalid timestamp ${match[0]}` });
+      } else {
+        if (timestamp.ambiguous && !warnedAmbiguous) {
+          warnedAmbiguous = true;
+          warnings.push({ line: lineNumber, message: `${match[0]} read as minutes:seconds:hundredths; write h:mm:ss.xx for hours` });
+        }
+        times.push(timestamp.time);
+      }
+      rest = rest.slice(match[0].length);
+    }
+
+    if (times.length > 0) {
+      const segments = parseSegments(rest.trim(), times[0]);
+      const text = segments ? segments.map(s => s.text).join('').trim() : rest.trim();
+      // An empty timed line only marks the end of the previous one
+      if (!text) {
+        blankTimes.push(...times);
+        return;
+      }
+      times.forEach(time => {
+        // Word times are absolute for the first occurrence; repeats of the line shift along with it
+        const shift = time - times[0];
+        entries.push({
+          time,
+          text,
+          segments: segments?.map(s => ({ ...s, time: s.time + shift, end: s.end !== undefined ? s.end + shift : undefined })),
+          order: entries.length
+        });
+      });
+      return;
+    }
+    if (rest !== line) return; // Only invalid timestamps, already reported
+
+    const tag = line.match(ID_TAG);
+    if (tag) {
+      const key = tag[1].toLowerCase();
+      const value = tag[2].trim();
+      metadata.tags[key] = value;
+      if (key === 'offset') {
+        const offset = Number(value);
+        if (value && isFinite(offset)) metadata.offset = offset;
+        else warnings.push({ line: lineNumber, message: `Invalid offset "${value}"` });
+      } else if (key === 'length') {
+        const length = parseLength(value);
+        if (length !== undefined) metadata.length = length;
+        else warnings.push({ line: lineNumber, message: `Invalid length "${value}"` });
+      } else if (METADATA_KEYS[key]) {
+        metadata[METADATA_KEYS[key]] = value;
+      }
+      return;
+    }
+
+    warnings.push({
+      line: lineNumber,
+      message: line.startsWith('[') ? `Unrecognized tag "${line.slice(0, 24)}"` : 'Line has no timestamp and was skipped'
+    });
+  });
+
+  // Lines sharing a timestamp keep their order in the file
+  entries.sort((a, b) => a.time - b.time || a.order - b.order);
+
+  // A blank timed line ends the line before it, as long as nothing else started in between
+  blankTimes.forEach(blank => {
+    const before = entries.filter(e => e.time < blank);
+    const last = before[before.length - 1];
+    const next = entries[before.length];
+    if (last && (!next || next.time >= blank)) last.end = last.end === undefined ? blank : Math.min(last.end, blank);
+  });
+
+  const shift = (t: number) => Math.max(0, t - metadata.offset / 1000);
+  const lyrics: LyricLine[] = [];
+  let previousTime: number | undefined;
+  entries.forEach(({ time, text, end, segments }) => {
+    // Bilingual LRC: a later line repeating a timestamp is the translation of the one before it
+    const previous = lyrics[lyrics.length - 1];
+    if (previous && time === previousTime && previous.text !== text) {
+      previous.translation = previous.translation ? `${previous.translation} / ${text}` : text;
+      return;
+    }
+    previousTime = time;
+    const line: LyricLine = { time: shift(time), text };
+    if (end !== undefined) line.end = shift(end);
+    if (segments) {
+      line.segments = segments.map(s => ({ ...s, time: shift(s.time), ...(s.end !== undefined ? { end: shift(s.end) } : {}) }));
+    }
+    lyrics.push(line);
+  });
+
+  return { lyrics, metadata, warnings };
+};
+
+// [mm:ss.xx], with minutes running past 99 for long recordings
+export const formatLrcTimestamp = (seconds: number): string => {
+  const centis = Math.round(Math.max(0, seconds) * 100);
+  const m = Math.floor(centis / 6000);
+  const s = Math.floor((centis % 6000) / 100);
+  const cs = centis % 100;
+  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+};
+
+// Writes lyrics back out as LRC: ID tags first, word timing as Enhanced LRC,
+// and a blank timed line wherever a line ends before the next one starts.
+export const formatLRC = (lyrics: LyricLine[], metadata: Partial<Omit<LrcMetadata, 'tags'>> = {}): string => {
+  const out: string[] = [];
+  const idTags: [string, string | number | undefined][] = [
+    ['ti', metadata.title],
+    ['ar', metadata.artist],
+    ['al', metadata.album],
+    ['au', metadata.author],
+    ['by', metadata.creator],
+    ['length', metadata.length ? formatLrcTimestamp(metadata.length).replace(/\.\d+$/, '') : undefined],
+    ['offset', metadata.offset ? Math.round(metadata.offset) : undefined],
+  ];
+  idTags.forEach(([key, value]) => {
+    if (value !== undefined && value !== '') out.push(`[${key}:${value}]`);
+  });
+
+  lyrics.forEach((line, i) => {
+    const text = line.segments
+      ? line.segments.map((s, j) => {
+          const word = `<${formatLrcTimestamp(s.time)}>${s.text}`;
+          const isLast = j === line.segments!.length - 1;
+          return isLast && s.end !== undefined ? `${word}<${formatLrcTimestamp(s.end)}>` : word;
+        }).join('')
+      : line.text;
+    out.push(`[${formatLrcTimestamp(line.time)}]${text}`);
+    if (line.translation) out.push(`[${formatLrcTimestamp(line.time)}]${line.translation}`);
+
+    const next = lyrics[i + 1];
+    if (line.end !== undefined && (!next || line.end < next.time)) out.push(`[${formatLrcTimestamp(line.end)}]`);
+  });
+  return out.join('\n') + '\n';
+};
+
+// --- Lookup ---
+
+// Index of the last line starting at or before `time` (lines are sorted), or -1 before the first one
+export const findActiveLineIndex = (lyrics: LyricLine[], time: number): number => {
+  let low = 0;
+  let high = lyrics.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (lyrics[mid].time <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+// --- Translation ---
+
+// A translation line belongs to the original starting within this many seconds of it
+const TRANSLATION_MATCH_SECONDS = 0.5;
+
+// Pairs a separately loaded translation with the lyrics, replacing any earlier one. Timed lines go
+// to the original line starting closest to them; plain lines (or timing that lines up nowhere) pair in order.
+export const attachTranslation = (lyrics: LyricLine[], translation: LyricLine[] | string[]): LyricLine[] => {
+  const base = removeTranslation(lyrics);
+  const pairInOrder = (texts: string[]) => {
+    const lines = texts.map(text => text.trim()).filter(Boolean);
+    return base.map((line, i) => (lines[i] ? { ...line, translation: lines[i] } : line));
+  };
+  if (translation.length === 0 || typeof translation[0] === 'string') return pairInOrder(translation as string[]);
+
+  const timed = translation as LyricLine[];
+  const texts = new Map<number, string[]>();
+  timed.forEach(line => {
+    const index = findActiveLineIndex(base, line.time + TRANSLATION_MATCH_SECONDS);
+    // The line found may start a little after this one while the line before it is closer
+    const best = [index - 1, index]
+      .filter(i => i >= 0)
+      .sort((a, b) => Math.abs(base[a].time - line.time) - Math.abs(base[b].time - line.time))[0];
+    if (best === undefined || Math.abs(base[best].time - line.time) > TRANSLATION_MATCH_SECONDS) return;
+    texts.set(best, [...(texts.get(best) || []), line.text.trim()]);
+  });
+  if (texts.size === 0) return pairInOrder(timed.map(line => line.text));
+  return base.map((line, i) => (texts.has(i) ? { ...line, translation: texts.get(i)!.join(' / ') } : line));
+};
+
+export const hasTranslation = (lyrics: LyricLine[]): boolean => lyrics.some(line => !!line.translation);
+
+export const removeTranslation = (lyrics: LyricLine[]): LyricLine[] =>
+  lyrics.map(({ translation, ...line }) => line);
+
+export const LYRICS_LANGUAGES: { language: LyricsLanguage; label: string }[] = [
+  { language: 'original', label: 'Original' },
+  { language: 'translation', label: 'Traduction' },
+  { language: 'both', label: 'Les deux' },
+];
+
+export const nextLyricsLanguage = (language: LyricsLanguage): LyricsLanguage =>
+  LYRICS_LANGUAGES[(LYRICS_LANGUAGES.findIndex(l => l.language === language) + 1) % LYRICS_LANGUAGES.length].language;
+
+// --- Offset ---
+
+export const LYRICS_OFFSET_STEP = 0.1;
+const MAX_LYRICS_OFFSET = 30;
+
+// Offsets move in 0.1s steps; rounding keeps float drift out of the stored value
+export const stepLyricsOffset = (offset: number, delta: number): number => {
+  const next = Math.round((offset + delta) * 10) / 10;
+  return Math.min(MAX_LYRICS_OFFSET, Math.max(-MAX_LYRICS_OFFSET, next));
+};
+
+// Bakes an offset into the times themselves (positive = earlier), for formats without [offset:]
+export const shiftLyrics = (lyrics: LyricLine[], offset: number): LyricLine[] => {
+  if (!offset) return lyrics;
+  const shift = (t: number) => Math.max(0, t - offset);
+  return lyrics.map(line => ({
+    ...line,
+    time: shift(line.time),
+    ...(line.end !== undefined ? { end: shift(line.end) } : {}),
+    ...(line.segments ? {
+      segments: line.segments.map(s => ({ ...s, time: shift(s.time), ...(s.end !== undefined ? { end: shift(s.end) } : {}) }))
+    } : {})
+  }));
+};
+
+// Sets (or removes, for 0) the [offset:] tag of LRC text, keeping everything else as written
+export const setLrcOffsetTag = (text: string, offsetMs: number): string => {
+  const lines = text.split(/\r?\n/).filter(line => !/^\s*\[offset\s*:[^\]]*\]\s*$/i.test(line));
+  if (offsetMs) {
+    // Goes with the other ID tags, before the first timed line
+    const firstTimed = lines.findIndex(line => TIMESTAMP.test(line.trim()));
+    lines.splice(firstTimed === -1 ? 0 : firstTimed, 0, `[offset:${Math.round(offsetMs)}]`);
+  }
+  return lines.join('\n');
+};
+
+// Seconds per line when unsynced lyrics come without a track duration
+const FALLBACK_LINE_SECONDS = 4;
+
+// Unsynced lyrics have no timing at all; spread the lines evenly over the track
+// so they still scroll by roughly in step with the song.
+export const spreadPlainLyrics = (text: string, duration?: number): LyricLine[] => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+  const step = duration && duration > 0 ? duration / lines.length : FALLBACK_LINE_SECONDS;
+  return lines.map((line, i) => ({ time: i * step, text: line }));
+};
+
+// Timestamped text goes through the LRC parser, anything else is spread over the track
+export const lyricsFromText = (text: string, duration?: number): LyricLine[] => {
+  const synced = parseLRC(text).lyrics;
+  return synced.length > 0 ? synced : spreadPlainLyrics(text, duration);
+};
@@ -0,0 +1,69 @@
+import { LyricLine } from '../types';
+import { parseLRC, formatLRC, LrcMetadata, LyricsWarning } from './lyrics';
+import { parseSRT, formatSRT, parseVTT, formatVTT, parseTTML, formatTTML } from './subtitles';
+
+export type LyricsFormat = 'lrc' | 'srt' | 'vtt' | 'ttml';
+
+export const LYRICS_FORMATS: { format: LyricsFormat; label: string; extension: string; mime: string }[] = [
+  { format: 'lrc', label: 'LRC', extension: 'lrc', mime: 'text/plain' },
+  { format: 'srt', label: 'SRT', extension: 'srt', mime: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT', extension: 'vtt', mime: 'text/vtt' },
+  { format: 'ttml', label: 'TTML', extension: 'ttml', mime: 'application/ttml+xml' },
+];
+
+// File picker filter covering every importable format
+export const LYRICS_ACCEPT = '.lrc,.txt,.srt,.vtt,.ttml,.dfxp,.xml';
+
+const EXTENSIONS: Record<string, LyricsFormat> = {
+  lrc: 'lrc',
+  txt: 'lrc',
+  srt: 'srt',
+  vtt: 'vtt',
+  ttml: 'ttml',
+  dfxp: 'ttml',
+  xml: 'ttml',
+};
+
+// The content decides; the file extension only breaks ties
+export const detectLyricsFormat = (text: string, fileName?: string): LyricsFormat => {
+  const head = text.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('<') && /<tt[\s>]/.test(head)) return 'ttml';
+  // SRT: a cue counter line followed by an "hh:mm:ss,mmm -->" timing line
+  if (/^\d+\s*\r?\n\s*\d+:\d{2}:\d{2}[,.]\d{1,3}\s*-->/m.test(head)) return 'srt';
+  if (/^\[\d+:\d{1,2}/m.test(head)) return 'lrc';
+  if (/-->/.test(head)) return 'srt';
+
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  return (extension && EXTENSIONS[extension]) || 'lrc';
+};
+
+export interface ParsedLyrics {
+  format: LyricsFormat;
+  lyrics: LyricLine[];
+  warnings: LyricsWarning[];
+  metadata?: LrcMetadata; // LRC only
+}
+
+export const parseLyrics = (text: string, fileName?: string): ParsedLyrics => {
+  const format = detectLyricsFormat(text, fileName);
+  switch (format) {
+    case 'srt': return { format, ...parseSRT(text) };
+    case 'vtt': return { format, ...parseVTT(text) };
+    case 'ttml': return { format, ...parseTTML(text) };
+    default: return { format, ...parseLRC(text) };
+  }
+};
+
+export const serializeLyrics = (
+  lyrics: LyricLine[],
+  format: LyricsFormat,
+  metadata: Partial<Omit<LrcMetadata, 'tags'>> = {}
+): string => {
+  switch (format) {
+    case 'srt': return formatSRT(lyrics);
+    case 'vtt': return formatVTT(lyrics);
+    case 'ttml': return formatTTML(lyrics, metadata.title);
+    default: return formatLRC(lyrics, metadata);
+  }
+};
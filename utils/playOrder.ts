@@ -0,0 +1,88 @@
+import { MediaData, RepeatMode } from '../types';
+
+// Play-order logic for shuffle / repeat.
+// The shuffled order is stored as track ids rather than indices so it survives
+// reordering the playlist; only additions and removals need reconciling.
+
+const randomInt = (max: number) => Math.floor(Math.random() * max);
+
+// Fisher-Yates shuffle, optionally pinning one id to the front (the track already playing)
+export const shuffleIds = (ids: string[], firstId?: string): string[] => {
+  const rest = ids.filter(id => id !== firstId);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return firstId && ids.includes(firstId) ? [firstId, ...rest] : rest;
+};
+
+// Fresh shuffle for the next repeat-all cycle that doesn't replay the last track straight away
+export const shuffleNewCycle = (ids: string[], lastId?: string): string[] => {
+  const order = shuffleIds(ids);
+  if (order.length > 1 && order[0] === lastId) {
+    const swap = 1 + randomInt(order.length - 1);
+    [order[0], order[swap]] = [order[swap], order[0]];
+  }
+  return order;
+};
+
+// Keep an existing shuffle order in sync with the playlist:
+// removed tracks drop out, new tracks are slotted in at random positions still ahead of the current one.
+export const reconcileOrder = (order: string[], ids: string[], currentId?: string): string[] => {
+  const present = new Set(ids);
+  const next = order.filter(id => present.has(id));
+  const known = new Set(next);
+  const added = ids.filter(id => !known.has(id));
+
+  const currentPos = currentId ? next.indexOf(currentId) : -1;
+  added.forEach(id => {
+    const start = currentPos + 1;
+    next.splice(start + randomInt(next.length - start + 1), 0, id);
+  });
+  return next;
+};
+
+interface PlayOrderOptions {
+  shuffle: boolean;
+  repeat: RepeatMode;
+  order: string[]; // Shuffled ids, only used when shuffle is on
+}
+
+// Position of the current track in the order it is actually played (0-based)
+export const getPlayPosition = (playlist: MediaData[], currentIndex: number, { shuffle, order }: PlayOrderOptions): number => {
+  if (!shuffle) return currentIndex;
+  const pos = order.indexOf(playlist[currentIndex]?.id);
+  return pos === -1 ? currentIndex : pos;
+};
+
+// Playlist index to move to in the given direction, or null when playback should stop.
+// Repeat-one is handled by looping the media element itself, so here it behaves like repeat-all
+// for manual skips and never reaches the end of the list.
+export const getAdjacentIndex = (
+  playlist: MediaData[],
+  currentIndex: number,
+  direction: 1 | -1,
+  options: PlayOrderOptions
+): number | null => {
+  const count = playlist.length;
+  if (count === 0) return null;
+  const wraps = options.repeat !== 'off';
+
+  if (!options.shuffle) {
+    const next = currentIndex + direction;
+    if (next >= 0 && next < count) return next;
+    return wraps ? (next + count) % count : null;
+  }
+
+  const pos = getPlayPosition(playlist, currentIndex, options);
+  const nextPos = pos + direction;
+  let id: string | undefined;
+  if (nextPos >= 0 && nextPos < options.order.length) {
+    id = options.order[nextPos];
+  } else if (wraps) {
+    id = options.order[(nextPos + options.order.length) % options.order.length];
+  }
+  if (!id) return null;
+  const index = playlist.findIndex(m => m.id === id);
+  return index === -1 ? null : index;
+};
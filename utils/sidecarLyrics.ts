@@ -0,0 +1,74 @@
+import { LyricLine } from '../types';
+import { parseLyrics, LYRICS_ACCEPT } from './lyricsFormats';
+import { attachTranslation } from './lyrics';
+
+// Lyrics files picked or dropped together with tracks ("Song.mp3" + "Song.lrc") go with the
+// track of the same name. A language suffix ("Song.fr.lrc") also matches, and becomes the
+// translation when the track has lyrics of its own.
+
+const LYRICS_EXTENSIONS = LYRICS_ACCEPT.split(',').map(ext => ext.slice(1));
+const LANGUAGE_SUFFIX = /\.[a-z]{2,3}(?:[-_][a-z]{2})?$/i;
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+const stemOf = (name: string) => name.replace(/\.[^./]+$/, '').toLowerCase();
+
+export const isLyricsFile = (file: File): boolean =>
+  !file.type.startsWith('audio') && !file.type.startsWith('video') && LYRICS_EXTENSIONS.includes(extensionOf(file.name));
+
+// Tracks and lyrics out of a mixed selection; anything else (images, documents...) is left out.
+// Some systems report no type for less common audio formats, so untyped files count as tracks.
+export const splitSidecarFiles = (files: File[]): { media: File[]; sidecars: File[] } => ({
+  media: files.filter(file => !isLyricsFile(file) && (!file.type || file.type.startsWith('audio') || file.type.startsWith('video'))),
+  sidecars: files.filter(isLyricsFile),
+});
+
+// Timed lyrics from a lyrics file in any supported format (empty when it has none)
+export const readLyricsFile = async (file: File): Promise<LyricLine[]> =>
+  parseLyrics(await file.text(), file.name).lyrics;
+
+export interface SidecarPairing {
+  lyrics: Map<File, LyricLine[]>; // Per track file
+  unmatched: File[]; // Lyrics files no track was named after
+}
+
+export const pairSidecarLyrics = async (media: File[], sidecars: File[]): Promise<SidecarPairing> => {
+  const tracksByStem = new Map<string, File[]>();
+  media.forEach(file => {
+    const stem = stemOf(file.name);
+    tracksByStem.set(stem, [...(tracksByStem.get(stem) || []), file]);
+  });
+
+  const originals = new Map<string, File>();
+  const translations = new Map<string, File>();
+  const unmatched: File[] = [];
+  // Exact names first, so "Song.lrc" is the original even when "Song.fr.lrc" comes before it
+  const exact = sidecars.filter(file => tracksByStem.has(stemOf(file.name)));
+  exact.forEach(file => {
+    if (!originals.has(stemOf(file.name))) originals.set(stemOf(file.name), file);
+  });
+  sidecars.filter(file => !exact.includes(file)).forEach(file => {
+    const stem = stemOf(file.name).replace(LANGUAGE_SUFFIX, '');
+    if (!tracksByStem.has(stem) || stem === stemOf(file.name)) unmatched.push(file);
+    else if (!originals.has(stem)) originals.set(stem, file);
+    else if (!translations.has(stem)) translations.set(stem, file);
+  });
+
+  const lyrics = new Map<File, LyricLine[]>();
+  await Promise.all(Array.from(originals, async ([stem, file]) => {
+    try {
+      let lines = await readLyricsFile(file);
+      if (lines.length === 0) return;
+      const translation = translations.get(stem);
+      if (translation) {
+        const text = await translation.text();
+        const timed = parseLyrics(text, translation.name).lyrics;
+        lines = attachTranslation(lines, timed.length > 0 ? timed : text.split(/\r?\n/));
+      }
+      tracksByStem.get(stem)!.forEach(track => lyrics.set(track, lines));
+    } catch (e) {
+      console.warn("Could not read lyrics file:", e);
+    }
+  }));
+
+  return { lyrics, unmatched };
+};
@@ -0,0 +1,352 @@
+import { LyricLine, LyricSegment } from '../types';
+import { LyricsWarning } from './lyrics';
+
+// SubRip (.srt), WebVTT (.vtt) and TTML (.ttml / .xml / .dfxp) cues <-> lyric lines.
+// Each cue becomes one line; multi-line cue text is joined with spaces.
+// On export, a line's translation goes on a last row of its cue (bilingual subtitles), marked so an
+// import reads it back as the translation: italics in SRT, a "translation" class in WebVTT and an
+// x-translation role in TTML.
+
+export interface ParsedSubtitles {
+  lyrics: LyricLine[];
+  warnings: LyricsWarning[];
+}
+
+// Cue length used on export when a line has no end and nothing follows it
+const DEFAULT_CUE_SECONDS = 4;
+
+// --- Shared ---
+
+// hh:mm:ss,mmm (SRT) / hh:mm:ss.mmm or mm:ss.mmm (WebVTT)
+const CUE_TIME = /(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})/;
+const CUE_TIMING = new RegExp(`^\\s*(${CUE_TIME.source})\\s*-->\\s*(${CUE_TIME.source})`);
+
+const parseCueTime = (hours: string | undefined, minutes: string, seconds: string, fraction: string) =>
+  (hours ? parseInt(hours, 10) * 3600 : 0)
+  + parseInt(minutes, 10) * 60
+  + parseInt(seconds, 10)
+  + parseInt(fraction, 10) / Math.pow(10, fraction.length);
+
+const formatCueTime = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.round(Math.max(0, seconds) * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// Where a cue stops on export: its own end, but never past the next line's start
+const cueEnd = (lyrics: LyricLine[], index: number) => {
+  const line = lyrics[index];
+  const next = lyrics[index + 1];
+  const end = line.end ?? next?.time ?? line.time + DEFAULT_CUE_SECONDS;
+  return Math.max(line.time, next ? Math.min(end, next.time) : end);
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const joinCueLines = (lines: string[]) => lines.map(l => l.trim()).filter(Boolean).join(' ');
+
+const byTime = (a: LyricLine, b: LyricLine) => a.time - b.time;
+
+// Splits the file into blank-line separated blocks, keeping each block's first line number
+const splitBlocks = (text: string): { line: number; rows: string[] }[] => {
+  const blocks: { line: number; rows: string[] }[] = [];
+  let current: { line: number; rows: string[] } | null = null;
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((row, index) => {
+    if (!row.trim()) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { line: index + 1, rows: [] };
+      blocks.push(current);
+    }
+    current.rows.push(row);
+  });
+  return blocks;
+};
+
+// --- SRT ---
+
+// Strips formatting: <i>, <b>, <font ...> and ASS-style {\an8} overrides
+const stripSrtMarkup = (text: string) => decodeEntities(text.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, ''));
+
+// A translation row is a last row wholly in italics under rows that aren't
+const SRT_TRANSLATION_ROW = /^<i>(.*)<\/i>$/i;
+
+export const parseSRT = (text: string): ParsedSubtitles => {
+  const lyrics: LyricLine[] = [];
+  const warnings: LyricsWarning[] = [];
+
+  splitBlocks(text).forEach(block => {
+    const timingRow = block.rows.findIndex(row => CUE_TIMING.test(row));
+    if (timingRow === -1) {
+      warnings.push({ line: block.line, message: 'Cue has no "-->" timing line and was skipped' });
+      return;
+    }
+    const m = block.rows[timingRow].match(CUE_TIMING)!;
+    const time = parseCueTime(m[2], m[3], m[4], m[5]);
+    const end = parseCueTime(m[7], m[8], m[9], m[10]);
+    const rows = block.rows.slice(timingRow + 1);
+    const translationRow = rows.length > 1 && !rows.slice(0, -1).some(row => /<i>/i.test(row))
+      ? rows[rows.length - 1].trim().match(SRT_TRANSLATION_ROW)
+      : null;
+    const cueText = stripSrtMarkup(joinCueLines(translationRow ? rows.slice(0, -1) : rows));
+    if (!cueText.trim()) return;
+    if (end < time) warnings.push({ line: block.line + timingRow, message: 'Cue ends before it starts' });
+    const line: LyricLine = { time, end: Math.max(time, end), text: cueText.trim() };
+    const translation = translationRow && stripSrtMarkup(translationRow[1]).trim();
+    if (translation) line.translation = translation;
+    lyrics.push(line);
+  });
+
+  return { lyrics: lyrics.sort(byTime), warnings };
+};
+
+export const formatSRT = (lyrics: LyricLine[]): string =>
+  lyrics.map((line, i) =>
+    `${i + 1}\n${formatCueTime(line.time, ',')} --> ${formatCueTime(cueEnd(lyrics, i), ',')}\n${line.text}\n${line.translation ? `<i>${line.translation}</i>\n` : ''}`
+  ).join('\n');
+
+// --- WebVTT ---
+
+// Cue text may carry karaoke timestamps: "Some <00:00:12.500>words"
+const VTT_INLINE_TIME = new RegExp(`<(${CUE_TIME.source})>`, 'g');
+const VTT_TRANSLATION_ROW = /^<c\.translation>(.*)<\/c>$/;
+
+const parseVttCueText = (raw: string, time: number): { text: string; segments?: LyricSegment[] } => {
+  const strip = (value: string) => decodeEntities(value.replace(/<[^>]+>/g, ''));
+  const matches = [...raw.matchAll(VTT_INLINE_TIME)];
+  if (matches.length === 0) return { text: strip(raw).trim() };
+
+  const segments: LyricSegment[] = [];
+  const leading = strip(raw.slice(0, matches[0].index));
+  if (leading.trim()) segments.push({ time, text: leading });
+  matches.forEach((match, i) => {
+    const start = match.index! + match[0].length;
+    const end = i + 1 < matches.length ? matches[i + 1].index! : raw.length;
+    const word = strip(raw.slice(start, end));
+    if (word) segments.push({ time: parseCueTime(match[2], match[3], match[4], match[5]), text: word });
+  });
+  const text = segments.map(s => s.text).join('').trim();
+  return segments.length > 0 ? { text, segments } : { text };
+};
+
+export const parseVTT = (text: string): ParsedSubtitles => {
+  const lyrics: LyricLine[] = [];
+  const warnings: LyricsWarning[] = [];
+  const blocks = splitBlocks(text);
+
+  const hasHeader = !!blocks[0] && /^WEBVTT/.test(blocks[0].rows[0]);
+  if (!hasHeader) {
+    warnings.push({ line: 1, message: 'Missing "WEBVTT" header' });
+  }
+
+  blocks.forEach((block, index) => {
+    if (index === 0 && hasHeader) return;
+    // Comment, style and region blocks carry no cues
+    if (/^(NOTE|STYLE|REGION)\b/.test(block.rows[0])) return;
+
+    const timingRow = block.rows.findIndex(row => CUE_TIMING.test(row));
+    if (timingRow === -1) {
+      warnings.push({ line: block.line, message: 'Cue has no "-->" timing line and was skipped' });
+      return;
+    }
+    const m = block.rows[timingRow].match(CUE_TIMING)!;
+    const time = parseCueTime(m[2], m[3], m[4], m[5]);
+    const end = parseCueTime(m[7], m[8], m[9], m[10]);
+    const rows = block.rows.slice(timingRow + 1);
+    const translationRow = rows.length > 1 ? rows[rows.length - 1].trim().match(VTT_TRANSLATION_ROW) : null;
+    const cue = parseVttCueText(joinCueLines(translationRow ? rows.slice(0, -1) : rows), time);
+    if (!cue.text) return;
+    if (end < time) warnings.push({ line: block.line + timingRow, message: 'Cue ends before it starts' });
+    const line: LyricLine = { time, end: Math.max(time, end), ...cue };
+    const translation = translationRow && decodeEntities(translationRow[1].replace(/<[^>]+>/g, '')).trim();
+    if (translation) line.translation = translation;
+    lyrics.push(line);
+  });
+
+  return { lyrics: lyrics.sort(byTime), warnings };
+};
+
+export const formatVTT = (lyrics: LyricLine[]): string => {
+  const cues = lyrics.map((line, i) => {
+    // Word timing goes inline; the first word starts with the cue itself
+    const text = line.segments
+      ? line.segments.map((s, j) => (j === 0 ? '' : `<${formatCueTime(s.time, '.')}>`) + escapeXml(s.text)).join('').trim()
+      : escapeXml(line.text);
+    const translation = line.translation ? `<c.translation>${escapeXml(line.translation)}</c>\n` : '';
+    return `${formatCueTime(line.time, '.')} --> ${formatCueTime(cueEnd(lyrics, i), '.')}\n${text}\n${translation}`;
+  });
+  return ['WEBVTT\n', ...cues].join('\n');
+};
+
+// --- TTML ---
+
+const TTML_NS = 'http://www.w3.org/ns/ttml';
+const TTML_PARAMETER_NS = 'http://www.w3.org/ns/ttml#parameter';
+const TTML_METADATA_NS = 'http://www.w3.org/ns/ttml#metadata';
+const TTML_TRANSLATION_ROLE = 'x-translation';
+
+interface TtmlTiming {
+  frameRate: number;
+  tickRate: number;
+}
+
+// Clock times (hh:mm:ss.fff, hh:mm:ss:frames) and offset times (12.5s, 500ms, 1.2m, 1h, 30f, 1000t)
+const parseTtmlTime = (value: string | null, timing: TtmlTiming): number | undefined => {
+  if (!value) return undefined;
+  const v = value.trim();
+  const clock = v.match(/^(\d+):(\d{2}):(\d{2})(?:\.(\d+))?(?::(\d+(?:\.\d+)?))?$/);
+  if (clock) {
+    const [, h, m, s, fraction, frames] = clock;
+    return parseInt(h, 10) * 3600 + parseInt(m, 10) * 60 + parseInt(s, 10)
+      + (fraction ? parseInt(fraction, 10) / Math.pow(10, fraction.length) : 0)
+      + (frames ? parseFloat(frames) / timing.frameRate : 0);
+  }
+  // Short clock form some tools emit: mm:ss.fff
+  const short = v.match(/^(\d+):(\d{2})(?:\.(\d+))?$/);
+  if (short) {
+    const [, m, s, fraction] = short;
+    return parseInt(m, 10) * 60 + parseInt(s, 10) + (fraction ? parseInt(fraction, 10) / Math.pow(10, fraction.length) : 0);
+  }
+  const offset = v.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)?$/);
+  if (offset) {
+    const amount = parseFloat(offset[1]);
+    switch (offset[2]) {
+      case 'h': return amount * 3600;
+      case 'm': return amount * 60;
+      case 'ms': return amount / 1000;
+      case 'f': return amount / timing.frameRate;
+      case 't': return amount / timing.tickRate;
+      default: return amount;
+    }
+  }
+  return undefined;
+};
+
+const isTtmlTranslation = (el: Element) =>
+  (el.getAttributeNS(TTML_METADATA_NS, 'role') || el.getAttribute('ttm:role')) === TTML_TRANSLATION_ROLE;
+
+// Text of a node with <br/> as spaces, leaving out a translation span
+const ttmlText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return node.textContent || '';
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const el = node as Element;
+  if (el.localName === 'br') return ' ';
+  if (isTtmlTranslation(el)) return '';
+  return Array.from(node.childNodes).map(ttmlText).join('');
+};
+
+export const parseTTML = (text: string): ParsedSubtitles => {
+  const lyrics: LyricLine[] = [];
+  const warnings: LyricsWarning[] = [];
+
+  const doc = new DOMParser().parseFromString(text.replace(/^\uFEFF/, ''), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { lyrics, warnings: [{ line: 0, message: 'Not well-formed XML' }] };
+  }
+
+  const root = doc.documentElement;
+  const parameter = (name: string) =>
+    parseFloat(root.getAttributeNS(TTML_PARAMETER_NS, name) || root.getAttribute(`ttp:${name}`) || '') || undefined;
+  const frameRate = parameter('frameRate') || 30;
+  // Ticks default to frames when a frame rate is declared, otherwise to seconds
+  const tickRate = parameter('tickRate') || (parameter('frameRate') ? frameRate : 1);
+  const timing = { frameRate, tickRate };
+
+  // begin/end on <body> and <div> offset everything inside them
+  const inheritedBegin = (el: Element): number => {
+    let total = 0;
+    for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+      total += parseTtmlTime(parent.getAttribute('begin'), timing) || 0;
+    }
+    return total;
+  };
+
+  Array.from(doc.getElementsByTagNameNS('*', 'p')).forEach((p, index) => {
+    const base = inheritedBegin(p);
+    const begin = parseTtmlTime(p.getAttribute('begin'), timing);
+    const endAttr = parseTtmlTime(p.getAttribute('end'), timing);
+    const dur = parseTtmlTime(p.getAttribute('dur'), timing);
+    const lineText = ttmlText(p).replace(/\s+/g, ' ').trim();
+    if (!lineText) return;
+    if (begin === undefined) {
+      warnings.push({ line: 0, message: `Cue ${index + 1} has no begin time and was skipped` });
+      return;
+    }
+
+    const time = base + begin;
+    const end = endAttr !== undefined ? base + endAttr : dur !== undefined ? time + dur : undefined;
+    const line: LyricLine = { time, text: lineText };
+    if (end !== undefined) line.end = Math.max(time, end);
+    const translationSpan = Array.from(p.getElementsByTagNameNS('*', 'span')).find(isTtmlTranslation);
+    const translation = translationSpan?.textContent?.replace(/\s+/g, ' ').trim();
+    if (translation) line.translation = translation;
+
+    // Timed <span>s are word timing. The spec makes them relative to the <p>, but several lyric
+    // exporters write absolute times; those are told apart by running past the line's end when read
+    // as relative (or, without an end, by none of them falling before the line's start).
+    const spans = Array.from(p.getElementsByTagNameNS('*', 'span')).filter(s => s.hasAttribute('begin'));
+    if (spans.length > 0) {
+      const begins = spans.map(span => parseTtmlTime(span.getAttribute('begin'), timing) || 0);
+      const absolute = begins.every(spanBegin => base + spanBegin >= time)
+        && (end === undefined || begins.some(spanBegin => time + spanBegin > end));
+      const segments: LyricSegment[] = spans.map((span, i) => {
+        const spanBegin = begins[i];
+        const spanTime = absolute ? base + spanBegin : time + spanBegin;
+        const spanEnd = parseTtmlTime(span.getAttribute('end'), timing);
+        // Spaces between spans live in the surrounding text nodes
+        const trailing = span.nextSibling?.nodeType === Node.TEXT_NODE && /^\s/.test(span.nextSibling.textContent || '') ? ' ' : '';
+        const segment: LyricSegment = { time: spanTime, text: ttmlText(span) + (i < spans.length - 1 ? trailing : '') };
+        if (spanEnd !== undefined) segment.end = absolute ? base + spanEnd : time + spanEnd;
+        return segment;
+      });
+      line.segments = segments;
+    }
+    lyrics.push(line);
+  });
+
+  return { lyrics: lyrics.sort(byTime), warnings };
+};
+
+export const formatTTML = (lyrics: LyricLine[], title?: string): string => {
+  const time = (seconds: number) => formatCueTime(seconds, '.');
+  const paragraphs = lyrics.map((line, i) => {
+    const { segments } = line;
+    // Span times are relative to their <p>
+    const content = segments
+      ? segments.map((s, j) => {
+          const end = s.end ?? segments[j + 1]?.time ?? cueEnd(lyrics, i);
+          return `<span begin="${time(s.time - line.time)}" end="${time(end - line.time)}">${escapeXml(s.text.trim())}</span>`;
+        }).join(' ')
+      : escapeXml(line.text);
+    const translation = line.translation
+      ? `<br/><span ttm:role="${TTML_TRANSLATION_ROLE}">${escapeXml(line.translation)}</span>`
+      : '';
+    return `      <p begin="${time(line.time)}" end="${time(cueEnd(lyrics, i))}">${content}${translation}</p>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="${TTML_NS}" xmlns:ttm="${TTML_METADATA_NS}" xml:lang="">`,
+    title ? `  <head>\n    <metadata>\n      <ttm:title>${escapeXml(title)}</ttm:title>\n    </metadata>\n  </head>` : '',
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>'
+  ].filter(row => row !== '').join('\n') + '\n';
+};
@@ -0,0 +1,12 @@
+// Format seconds as m:ss (or h:mm:ss for long tracks) for on-screen readouts
+export const formatTime = (seconds: number): string => {
+  if (!isFinite(seconds) || seconds < 0) seconds = 0;
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const ss = s.toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${ss}` : `${m}:${ss}`;
+};
+
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
@@ -0,0 +1,7 @@
+import { TrackInfo } from '../types';
+
+// "Artist — Title" from the embedded tags, falling back to the file name
+export const getTrackTitle = (track: TrackInfo & { name: string }): string => {
+  if (!track.title) return track.name;
+  return track.artist ? `${track.artist} — ${track.title}` : track.title;
+};